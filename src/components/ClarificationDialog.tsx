@@ -11,13 +11,20 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { AlertCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ClarificationQuestion } from "@shared/form-schema";
 
 interface ClarificationDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   contradiction: string;
-  questions: string[];
+  questions: ClarificationQuestion[];
+  // 1-based number of this round of questions, out of maxRounds
+  round: number;
+  maxRounds: number;
   onSubmit: (answers: string[]) => void;
+  // Generates the form without answering, leaving the AI to assume
+  onGenerateAnyway: () => void;
 }
 
 export default function ClarificationDialog({
@@ -25,7 +32,10 @@ export default function ClarificationDialog({
   onOpenChange,
   contradiction,
   questions,
+  round,
+  maxRounds,
   onSubmit,
+  onGenerateAnyway,
 }: ClarificationDialogProps) {
   const [answers, setAnswers] = useState<string[]>(questions.map(() => ''));
 
@@ -53,6 +63,7 @@ export default function ClarificationDialog({
           </DialogTitle>
           <DialogDescription className="text-base">
             We detected a potential contradiction in your form description
+            {maxRounds > 1 && ` (round ${round} of ${maxRounds})`}
           </DialogDescription>
         </DialogHeader>
 
@@ -64,16 +75,32 @@ export default function ClarificationDialog({
 
           <div className="space-y-4">
             <p className="font-medium">Please answer these questions:</p>
-            {questions.map((question, index) => (
+            {questions.map(({ question, choices }, index) => (
               <div key={index} className="space-y-2">
                 <Label htmlFor={`question-${index}`} className="text-base">
                   {index + 1}. {question}
                 </Label>
+                {choices && choices.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {choices.map(choice => (
+                      <Button
+                        key={choice}
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        className={cn(answers[index] === choice && "border-primary bg-primary/10")}
+                        onClick={() => handleAnswerChange(index, choice)}
+                      >
+                        {choice}
+                      </Button>
+                    ))}
+                  </div>
+                )}
                 <Textarea
                   id={`question-${index}`}
                   value={answers[index]}
                   onChange={(e) => handleAnswerChange(index, e.target.value)}
-                  placeholder="Your answer..."
+                  placeholder={choices?.length ? "Pick a suggestion or write your own answer..." : "Your answer..."}
                   rows={2}
                 />
               </div>
@@ -89,6 +116,13 @@ export default function ClarificationDialog({
           >
             Cancel
           </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={onGenerateAnyway}
+          >
+            Generate Anyway
+          </Button>
           <Button
             type="button"
             onClick={handleSubmit}
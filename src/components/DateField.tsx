@@ -0,0 +1,79 @@
+import { format, parse } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { resolveTemporalBound, type FormField } from "@shared/form-schema";
+
+interface DateFieldProps {
+  field: FormField;
+  value: string;
+  onChange: (value: string) => void;
+  hasError: boolean;
+}
+
+const parseDay = (day: string | undefined) =>
+  day ? parse(day, 'yyyy-MM-dd', new Date()) : undefined;
+
+// Renders date and datetime fields: a calendar popover for the day, plus a
+// native time input for datetime. Values use the shared storage format.
+export default function DateField({ field, value, onChange, hasError }: DateFieldProps) {
+  const type = field.type === 'datetime' ? 'datetime' : 'date';
+  const [day, time = ''] = value.split('T');
+  const selected = parseDay(day);
+
+  const fromDate = parseDay(resolveTemporalBound(type, field.validation?.min, 'min')?.slice(0, 10));
+  const toDate = parseDay(resolveTemporalBound(type, field.validation?.max, 'max')?.slice(0, 10));
+
+  const update = (nextDay: string, nextTime: string) => {
+    if (type === 'date') {
+      onChange(nextDay);
+    } else {
+      onChange(nextDay || nextTime ? `${nextDay}T${nextTime}` : '');
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            id={field.id}
+            type="button"
+            variant="outline"
+            className={cn(
+              "flex-1 justify-start text-left font-normal",
+              !selected && "text-muted-foreground",
+              hasError && "border-destructive"
+            )}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {selected ? format(selected, "PPP") : field.placeholder || "Pick a date"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={selected}
+            defaultMonth={selected || toDate}
+            onSelect={(date) => update(date ? format(date, 'yyyy-MM-dd') : '', time)}
+            fromDate={fromDate}
+            toDate={toDate}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      {type === 'datetime' && (
+        <Input
+          type="time"
+          aria-label={`${field.label} time`}
+          value={time}
+          onChange={(e) => update(day, e.target.value)}
+          className={cn("w-32", hasError && "border-destructive")}
+        />
+      )}
+    </div>
+  );
+}
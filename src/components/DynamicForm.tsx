@@ -1,110 +1,147 @@
-import { useState } from "react";
+import { useState, type ReactNode } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
+import { FunctionsHttpError } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
-import { CheckCircle2, RotateCcw } from "lucide-react";
-
-interface FormField {
-  id: string;
-  label: string;
-  type: 'text' | 'email' | 'tel' | 'number' | 'select' | 'textarea';
-  placeholder?: string;
-  required: boolean;
-  validation?: {
-    pattern?: string;
-    message?: string;
-  };
-  options?: string[];
-}
-
-interface FormSchema {
-  title?: string;
-  description?: string;
-  fields?: FormField[];
-}
+import { ArrowLeft, ArrowRight, CheckCircle2, RotateCcw } from "lucide-react";
+import {
+  computeAnswers,
+  getActiveFields,
+  getPagePath,
+  getVisibleAnswers,
+  getVisibleFields,
+  isFileRefList,
+  isGroupItems,
+  nextPageIndex,
+  pruneHiddenAnswers,
+  resolveTemporalBound,
+  splitIntoPages,
+  validateAnswers,
+  type FormData,
+  type FormField,
+  type FormSchema,
+  type FormValue,
+} from "@shared/form-schema";
+import DateField from "./DateField";
+import FileField from "./FileField";
+import GroupField from "./GroupField";
+import RangeField from "./RangeField";
 
 interface DynamicFormProps {
   schema: FormSchema;
   onReset: () => void;
   formId?: string;
+  // URL query parameters, read by hidden fields
+  params?: Record<string, string>;
+  // Controls shown next to each field, e.g. the builder's AI actions
+  renderFieldActions?: (field: FormField) => ReactNode;
 }
 
-export default function DynamicForm({ schema, onReset, formId }: DynamicFormProps) {
-  const [formData, setFormData] = useState<Record<string, string>>({});
+export default function DynamicForm({ schema, onReset, formId, params, renderFieldActions }: DynamicFormProps) {
+  const [formData, setFormData] = useState<FormData>({});
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
+  // Pages visited so far, so Back retraces the branches that were taken
+  const [pageHistory, setPageHistory] = useState<number[]>([0]);
 
-  const validateField = (field: FormField, value: string): string | null => {
-    if (field.required && !value.trim()) {
-      return `${field.label} is required`;
-    }
+  // Re-evaluated on every change so conditional fields appear as answers come
+  // in; hidden and calculated fields are derived from the typed answers
+  const answers = computeAnswers(schema.fields, formData, params);
+  const pages = splitIntoPages(schema.fields);
+  const pageIndex = Math.min(pageHistory[pageHistory.length - 1], pages.length - 1);
+  const page = pages[pageIndex];
+  const visibleIds = new Set(getVisibleFields(schema.fields, answers).map(field => field.id));
+  const pageFields = page.fields.filter(field => visibleIds.has(field.id));
+  const nextIndex = nextPageIndex(pages, pageIndex, getVisibleAnswers(schema.fields, answers));
+  const isLastPage = nextIndex === null;
 
-    if (value && field.validation?.pattern) {
-      const regex = new RegExp(field.validation.pattern);
-      if (!regex.test(value)) {
-        return field.validation.message || `Invalid ${field.label}`;
-      }
-    }
+  // The final check and submit-form cover every page, so when the current
+  // page has none of the errors, go back to the first page along the path
+  // that has one; Back then still retraces the pages before it
+  const showErrors = (newErrors: Record<string, string>) => {
+    setErrors(newErrors);
+    if (pageFields.some(field => newErrors[field.id])) return;
+    const path = getPagePath(pages, getVisibleAnswers(schema.fields, answers));
+    const stop = path.findIndex(index => pages[index].fields.some(field => newErrors[field.id]));
+    if (stop >= 0) setPageHistory(path.slice(0, stop + 1));
+  };
 
-    // Built-in validation for common types
-    if (value && field.type === 'email') {
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(value)) {
-        return 'Invalid email address';
-      }
-    }
+  // Hidden and skipped fields are neither validated nor saved
+  const validateFields = (fields: FormField[]) => {
+    const newErrors = validateAnswers(fields, answers, { formId });
 
-    if (value && field.type === 'tel') {
-      const phoneRegex = /^[\d\s\-\+\(\)]+$/;
-      if (!phoneRegex.test(value)) {
-        return 'Invalid phone number';
-      }
+    if (Object.keys(newErrors).length > 0) {
+      showErrors(newErrors);
+      toast.error("Please fix the errors in the form");
+      return false;
     }
+    return true;
+  };
 
-    return null;
+  const handleNext = () => {
+    if (nextIndex === null || !validateFields(pageFields)) return;
+    setPageHistory(prev => [...prev, nextIndex]);
+  };
+
+  const handleBack = () => {
+    setPageHistory(prev => prev.length > 1 ? prev.slice(0, -1) : prev);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    // Validate all fields
-    const newErrors: Record<string, string> = {};
-    schema.fields?.forEach(field => {
-      const error = validateField(field, formData[field.id] || '');
-      if (error) {
-        newErrors[field.id] = error;
-      }
-    });
 
-    if (Object.keys(newErrors).length > 0) {
-      setErrors(newErrors);
-      toast.error("Please fix the errors in the form");
+    if (!isLastPage) {
+      handleNext();
+      return;
+    }
+    if (!validateFields(getActiveFields(schema.fields, answers))) {
       return;
     }
 
     setIsSubmitting(true);
     try {
-      const { error } = await supabase
-        .from('form_submissions')
-        .insert({
-          form_title: schema.title || 'Untitled Form',
-          form_data: formData,
-          form_id: formId || null
+      // Previews have no stored form for submit-form to check against, so
+      // they are validated in the browser only and never saved
+      if (formId) {
+        const { error } = await supabase.functions.invoke('submit-form', {
+          body: {
+            formId,
+            formData: pruneHiddenAnswers(schema.fields, answers),
+            params: params || {},
+            // Lets the server resolve "today" and "now" in the respondent's time zone
+            utcOffset: -new Date().getTimezoneOffset(),
+          }
         });
 
-      if (error) throw error;
+        if (error) throw error;
+        toast.success("Form submitted successfully!");
+      } else {
+        toast.info("This is a preview, so the response wasn't saved");
+      }
 
-      toast.success("Form submitted successfully!");
       setSubmitted(true);
       setFormData({});
       setErrors({});
+      setPageHistory([0]);
     } catch (error) {
+      // submit-form re-validates every answer and reports rejections per field
+      if (error instanceof FunctionsHttpError) {
+        const body = await error.context.json().catch(() => null);
+        if (body?.errors) {
+          showErrors(body.errors);
+          toast.error(body.error || "Please fix the errors in the form");
+          return;
+        }
+      }
       console.error('Error submitting form:', error);
       toast.error("Failed to submit form. Please try again.");
     } finally {
@@ -112,7 +149,7 @@ export default function DynamicForm({ schema, onReset, formId }: DynamicFormProp
     }
   };
 
-  const handleChange = (fieldId: string, value: string) => {
+  const handleChange = (fieldId: string, value: FormValue) => {
     setFormData(prev => ({ ...prev, [fieldId]: value }));
     // Clear error when user starts typing
     if (errors[fieldId]) {
@@ -124,9 +161,14 @@ export default function DynamicForm({ schema, onReset, formId }: DynamicFormProp
     }
   };
 
-  const renderField = (field: FormField) => {
-    const hasError = !!errors[field.id];
-    const value = formData[field.id] || '';
+  // `field.id` doubles as the DOM id, so group entries pass a scoped copy
+  const renderInput = (
+    field: FormField,
+    answer: FormValue | undefined,
+    onChange: (value: FormValue) => void,
+    hasError: boolean
+  ) => {
+    const value = typeof answer === 'string' ? answer : '';
 
     const commonProps = {
       id: field.id,
@@ -137,7 +179,7 @@ export default function DynamicForm({ schema, onReset, formId }: DynamicFormProp
     switch (field.type) {
       case 'select':
         return (
-          <Select value={value} onValueChange={(val) => handleChange(field.id, val)}>
+          <Select value={value} onValueChange={(val) => onChange(val)}>
             <SelectTrigger {...commonProps}>
               <SelectValue placeholder={field.placeholder || `Select ${field.label}`} />
             </SelectTrigger>
@@ -151,13 +193,150 @@ export default function DynamicForm({ schema, onReset, formId }: DynamicFormProp
           </Select>
         );
 
+      case 'radio':
+        return (
+          <RadioGroup
+            id={field.id}
+            value={value}
+            onValueChange={(val) => onChange(val)}
+            className={hasError ? 'rounded-md border border-destructive p-2' : ''}
+          >
+            {field.options?.map(option => (
+              <div key={option} className="flex items-center gap-2">
+                <RadioGroupItem value={option} id={`${field.id}-${option}`} />
+                <Label htmlFor={`${field.id}-${option}`} className="font-normal">
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+
+      case 'multiselect': {
+        const selected = Array.isArray(answer)
+          ? answer.filter((item): item is string => typeof item === 'string')
+          : [];
+        const toggle = (option: string, checked: boolean) => {
+          const next = checked
+            ? [...selected, option]
+            : selected.filter(item => item !== option);
+          // Keep answers in the order the options are listed
+          onChange(field.options?.filter(item => next.includes(item)) || []);
+        };
+        return (
+          <div
+            id={field.id}
+            className={`space-y-2 ${hasError ? 'rounded-md border border-destructive p-2' : ''}`}
+          >
+            {field.options?.map(option => (
+              <div key={option} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${field.id}-${option}`}
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) => toggle(option, checked === true)}
+                />
+                <Label htmlFor={`${field.id}-${option}`} className="font-normal">
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </div>
+        );
+      }
+
+      case 'checkbox':
+        return (
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id={field.id}
+              checked={answer === true}
+              onCheckedChange={(checked) => onChange(checked === true)}
+              className={hasError ? 'border-destructive' : ''}
+            />
+            <Label htmlFor={field.id} className="font-normal leading-snug">
+              {field.label}
+              {field.required && <span className="text-destructive"> *</span>}
+            </Label>
+          </div>
+        );
+
+      case 'file':
+        return (
+          <FileField
+            field={field}
+            value={isFileRefList(answer) ? answer : []}
+            onChange={(files) => onChange(files)}
+            hasError={hasError}
+            formId={formId}
+          />
+        );
+
+      case 'calculated':
+        return (
+          <div
+            id={field.id}
+            aria-live="polite"
+            className="rounded-md border bg-muted px-3 py-2 text-sm tabular-nums"
+          >
+            {typeof answer === 'number' ? answer.toLocaleString() : '—'}
+          </div>
+        );
+
+      case 'group':
+        return (
+          <GroupField
+            field={field}
+            value={isGroupItems(answer) ? answer : undefined}
+            onChange={onChange}
+            hasError={hasError}
+            renderSubField={(subField, subAnswer, onSubChange) =>
+              renderLabelledField(subField, subAnswer, onSubChange)
+            }
+          />
+        );
+
+      case 'rating':
+      case 'scale':
+      case 'slider':
+        return (
+          <RangeField
+            field={field}
+            value={typeof answer === 'number' ? answer : undefined}
+            onChange={(val) => onChange(val)}
+            hasError={hasError}
+          />
+        );
+
+      case 'date':
+      case 'datetime':
+        return (
+          <DateField
+            field={field}
+            value={value}
+            onChange={(val) => onChange(val)}
+            hasError={hasError}
+          />
+        );
+
+      case 'time':
+        return (
+          <Input
+            {...commonProps}
+            type="time"
+            value={value}
+            min={resolveTemporalBound('time', field.validation?.min, 'min')}
+            max={resolveTemporalBound('time', field.validation?.max, 'max')}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        );
+
       case 'textarea':
         return (
           <Textarea
             {...commonProps}
             placeholder={field.placeholder}
             value={value}
-            onChange={(e) => handleChange(field.id, e.target.value)}
+            onChange={(e) => onChange(e.target.value)}
             rows={4}
           />
         );
@@ -169,12 +348,35 @@ export default function DynamicForm({ schema, onReset, formId }: DynamicFormProp
             type={field.type}
             placeholder={field.placeholder}
             value={value}
-            onChange={(e) => handleChange(field.id, e.target.value)}
+            onChange={(e) => onChange(e.target.value)}
           />
         );
     }
   };
 
+  const renderLabelledField = (
+    field: FormField,
+    answer: FormValue | undefined,
+    onChange: (value: FormValue) => void,
+    error?: string
+  ) => (
+    <div className="space-y-2">
+      {field.type !== 'checkbox' && (
+        <Label htmlFor={field.id} className="flex items-center gap-1">
+          {field.label}
+          {field.required && <span className="text-destructive">*</span>}
+        </Label>
+      )}
+      {field.description && (
+        <p className="text-sm text-muted-foreground">{field.description}</p>
+      )}
+      {renderInput(field, answer, onChange, !!error)}
+      {error && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+    </div>
+  );
+
   if (submitted) {
     return (
       <Card className="p-8 text-center space-y-6 bg-gradient-to-br from-primary/5 to-accent/5">
@@ -207,25 +409,67 @@ export default function DynamicForm({ schema, onReset, formId }: DynamicFormProp
         )}
       </div>
 
+      {pages.length > 1 && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>Page {pageIndex + 1} of {pages.length}</span>
+            <span>{Math.round(((pageIndex + 1) / pages.length) * 100)}%</span>
+          </div>
+          <Progress value={((pageIndex + 1) / pages.length) * 100} />
+        </div>
+      )}
+
+      {page.pageBreak && (
+        <div className="space-y-1">
+          <h4 className="text-xl font-semibold">{page.pageBreak.label}</h4>
+          {page.pageBreak.description && (
+            <p className="text-sm text-muted-foreground">{page.pageBreak.description}</p>
+          )}
+        </div>
+      )}
+
       <div className="space-y-4">
-        {schema.fields?.map(field => (
-          <div key={field.id} className="space-y-2">
-            <Label htmlFor={field.id} className="flex items-center gap-1">
-              {field.label}
-              {field.required && <span className="text-destructive">*</span>}
-            </Label>
-            {renderField(field)}
-            {errors[field.id] && (
-              <p className="text-sm text-destructive">{errors[field.id]}</p>
+        {pageFields.map(field => (
+          <div key={field.id} className={renderFieldActions ? "relative pr-9" : undefined}>
+            {renderFieldActions && (
+              <div className={field.type === 'section' ? "absolute right-0 top-4" : "absolute right-0 top-0"}>
+                {renderFieldActions(field)}
+              </div>
+            )}
+            {field.type === 'section' ? (
+              <div className="pt-4 border-t space-y-1">
+                <h4 className="text-lg font-semibold">{field.label}</h4>
+                {field.description && (
+                  <p className="text-sm text-muted-foreground">{field.description}</p>
+                )}
+              </div>
+            ) : renderLabelledField(
+              field,
+              answers[field.id],
+              value => handleChange(field.id, value),
+              errors[field.id]
             )}
           </div>
         ))}
       </div>
 
       <div className="flex gap-3 pt-4">
-        <Button type="submit" disabled={isSubmitting} className="flex-1">
-          {isSubmitting ? 'Submitting...' : 'Submit Form'}
-        </Button>
+        {pageHistory.length > 1 && (
+          <Button type="button" variant="outline" onClick={handleBack}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+        )}
+        {isLastPage ? (
+          <Button type="submit" disabled={isSubmitting} className="flex-1">
+            {isSubmitting ? 'Submitting...' : 'Submit Form'}
+          </Button>
+        ) : (
+          <Button type="button" onClick={handleNext} className="flex-1">
+            Next
+            <ArrowRight className="ml-2 h-4 w-4" />
+          </Button>
+        )}
         <Button type="button" variant="outline" onClick={onReset}>
           <RotateCcw className="mr-2 h-4 w-4" />
           New Form
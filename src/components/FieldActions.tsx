@@ -0,0 +1,51 @@
+import { Loader2, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  FIELD_ACTION_LABELS,
+  fieldActionsFor,
+  type FieldAction,
+  type FormField,
+} from "@shared/form-schema";
+
+interface FieldActionsProps {
+  field: FormField;
+  onAction: (action: FieldAction) => void;
+  // This field is being changed
+  isBusy: boolean;
+  disabled: boolean;
+}
+
+// Menu of AI changes to a single field, shown next to it in the builder's preview
+export default function FieldActions({ field, onAction, isBusy, disabled }: FieldActionsProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          disabled={disabled || isBusy}
+          aria-label={`AI actions for ${field.label}`}
+        >
+          {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wand2 className="h-4 w-4" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="max-w-[16rem] truncate">{field.label}</DropdownMenuLabel>
+        {fieldActionsFor(field).map(action => (
+          <DropdownMenuItem key={action} onSelect={() => onAction(action)}>
+            {FIELD_ACTION_LABELS[action]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,236 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CHOICE_FIELD_TYPES,
+  DISPLAY_FIELD_TYPES,
+  FIELD_TYPE_LABELS,
+  SUB_FIELD_TYPES,
+  changeFieldType,
+  isComputedType,
+  isRangeType,
+  validationKeysFor,
+  type FieldRange,
+  type FieldType,
+  type FieldValidation,
+  type FormField,
+} from "@shared/form-schema";
+import FieldList from "./FieldList";
+
+interface FieldInspectorProps {
+  field: FormField;
+  onChange: (field: FormField) => void;
+  // Types the field may be switched to
+  types: readonly FieldType[];
+}
+
+// Empty inputs clear a setting rather than setting it to 0
+const toNumber = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : Number(value);
+
+// undefined instead of an object with nothing set, so the saved schema stays minimal
+function compact<T extends object>(value: T): T | undefined {
+  const entries = Object.entries(value).filter(([, entry]) => entry !== undefined && entry !== '');
+  return entries.length > 0 ? Object.fromEntries(entries) as T : undefined;
+}
+
+const VALIDATION_INPUTS: Record<keyof FieldValidation, { label: string; kind: 'text' | 'number' | 'list'; placeholder?: string }> = {
+  pattern: { label: 'Pattern (regular expression)', kind: 'text', placeholder: '^[A-Z]{2}\\d{4}$' },
+  message: { label: 'Error message', kind: 'text', placeholder: 'Please enter a valid value' },
+  min: { label: 'Earliest', kind: 'text', placeholder: 'e.g. today or 2024-01-31' },
+  max: { label: 'Latest', kind: 'text', placeholder: 'e.g. today or 2024-12-31' },
+  minSelected: { label: 'Minimum choices', kind: 'number' },
+  maxSelected: { label: 'Maximum choices', kind: 'number' },
+  accept: { label: 'Accepted types', kind: 'list', placeholder: 'application/pdf, image/*' },
+  maxFileSizeMb: { label: 'Maximum size (MB)', kind: 'number' },
+  maxFiles: { label: 'Maximum files', kind: 'number' },
+  minItems: { label: 'Minimum entries', kind: 'number' },
+  maxItems: { label: 'Maximum entries', kind: 'number' },
+};
+
+const RANGE_INPUTS: { key: keyof FieldRange; label: string; kind: 'text' | 'number' }[] = [
+  { key: 'min', label: 'Minimum', kind: 'number' },
+  { key: 'max', label: 'Maximum', kind: 'number' },
+  { key: 'step', label: 'Step', kind: 'number' },
+  { key: 'minLabel', label: 'Low end label', kind: 'text' },
+  { key: 'maxLabel', label: 'High end label', kind: 'text' },
+];
+
+// Edits the settings of one field; conditions and page branches are kept as they are
+export default function FieldInspector({ field, onChange, types }: FieldInspectorProps) {
+  const update = (changes: Partial<FormField>) => onChange({ ...field, ...changes });
+  const isDisplay = DISPLAY_FIELD_TYPES.includes(field.type);
+  const canBeRequired = !isDisplay && !isComputedType(field.type);
+
+  const setValidation = (key: keyof FieldValidation, raw: string) => {
+    const { kind } = VALIDATION_INPUTS[key];
+    const value = kind === 'number' ? toNumber(raw)
+      : kind === 'list' ? raw.split(',').map(entry => entry.trim()).filter(Boolean)
+      : raw;
+    update({ validation: compact({ ...field.validation, [key]: Array.isArray(value) && value.length === 0 ? undefined : value }) });
+  };
+
+  const setRange = (key: keyof FieldRange, kind: 'text' | 'number', raw: string) => {
+    update({ range: compact({ ...field.range, [key]: kind === 'number' ? toNumber(raw) : raw }) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${field.id}-label`}>Label</Label>
+          <Input id={`${field.id}-label`} value={field.label} onChange={(e) => update({ label: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${field.id}-type`}>Type</Label>
+          <Select value={field.type} onValueChange={(type) => onChange(changeFieldType(field, type as FieldType))}>
+            <SelectTrigger id={`${field.id}-type`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {types.map(type => (
+                <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${field.id}-id`}>Id</Label>
+          <Input
+            id={`${field.id}-id`}
+            value={field.id}
+            onChange={(e) => update({ id: e.target.value.trim() })}
+            className="font-mono text-sm"
+          />
+        </div>
+        {!isDisplay && (
+          <div className="space-y-2">
+            <Label htmlFor={`${field.id}-placeholder`}>Placeholder</Label>
+            <Input
+              id={`${field.id}-placeholder`}
+              value={field.placeholder ?? ''}
+              onChange={(e) => update({ placeholder: e.target.value || undefined })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${field.id}-description`}>Help text</Label>
+        <Textarea
+          id={`${field.id}-description`}
+          value={field.description ?? ''}
+          onChange={(e) => update({ description: e.target.value || undefined })}
+          rows={2}
+        />
+      </div>
+
+      {canBeRequired && (
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`${field.id}-required`}
+            checked={field.required}
+            onCheckedChange={(required) => update({ required })}
+          />
+          <Label htmlFor={`${field.id}-required`} className="font-normal">Required</Label>
+        </div>
+      )}
+
+      {CHOICE_FIELD_TYPES.includes(field.type) && (
+        <div className="space-y-2">
+          <Label htmlFor={`${field.id}-options`}>Options (one per line)</Label>
+          <Textarea
+            id={`${field.id}-options`}
+            value={(field.options ?? []).join('\n')}
+            onChange={(e) => update({ options: e.target.value.split('\n') })}
+            rows={Math.max(3, field.options?.length ?? 0)}
+          />
+        </div>
+      )}
+
+      {validationKeysFor(field.type).length > 0 && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {validationKeysFor(field.type).map(key => {
+            const { label, kind, placeholder } = VALIDATION_INPUTS[key];
+            const value = field.validation?.[key];
+            return (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`${field.id}-validation-${key}`}>{label}</Label>
+                <Input
+                  id={`${field.id}-validation-${key}`}
+                  type={kind === 'number' ? 'number' : 'text'}
+                  placeholder={placeholder}
+                  value={Array.isArray(value) ? value.join(', ') : value ?? ''}
+                  onChange={(e) => setValidation(key, e.target.value)}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {isRangeType(field.type) && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {RANGE_INPUTS.map(({ key, label, kind }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`${field.id}-range-${key}`}>{label}</Label>
+              <Input
+                id={`${field.id}-range-${key}`}
+                type={kind}
+                value={field.range?.[key] ?? ''}
+                onChange={(e) => setRange(key, kind, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {field.type === 'calculated' && (
+        <div className="space-y-2">
+          <Label htmlFor={`${field.id}-expression`}>Expression</Label>
+          <Input
+            id={`${field.id}-expression`}
+            value={field.expression ?? ''}
+            onChange={(e) => update({ expression: e.target.value })}
+            placeholder="round(weight / (height / 100) ^ 2, 1)"
+            className="font-mono text-sm"
+          />
+        </div>
+      )}
+
+      {field.type === 'hidden' && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor={`${field.id}-param`}>URL parameter</Label>
+            <Input
+              id={`${field.id}-param`}
+              value={field.param ?? ''}
+              onChange={(e) => update({ param: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${field.id}-default`}>Default value</Label>
+            <Input
+              id={`${field.id}-default`}
+              value={field.defaultValue ?? ''}
+              onChange={(e) => update({ defaultValue: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+      )}
+
+      {field.type === 'group' && (
+        <div className="space-y-2">
+          <Label>Fields of each entry</Label>
+          <FieldList
+            fields={field.fields ?? []}
+            onChange={(fields) => update({ fields })}
+            types={SUB_FIELD_TYPES}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp, GripVertical, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import {
+  FIELD_TYPE_LABELS,
+  createField,
+  moveItem,
+  type FieldType,
+  type FormField,
+} from "@shared/form-schema";
+import FieldInspector from "./FieldInspector";
+
+interface FieldListProps {
+  fields: FormField[];
+  onChange: (fields: FormField[]) => void;
+  // Types that can be added
+  types: readonly FieldType[];
+}
+
+/**
+ * Fields in order, reordered by dragging or with the arrow buttons. Clicking
+ * a field opens its settings underneath. Rows are keyed by position, as ids
+ * can be edited.
+ */
+export default function FieldList({ fields, onChange, types }: FieldListProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [dragged, setDragged] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= fields.length || from === to) return;
+    onChange(moveItem(fields, from, to));
+    // Keep the same field open
+    if (selected === from) setSelected(to);
+    else if (selected !== null && from < selected && to >= selected) setSelected(selected - 1);
+    else if (selected !== null && from > selected && to <= selected) setSelected(selected + 1);
+  };
+
+  const remove = (index: number) => {
+    onChange(fields.filter((_, i) => i !== index));
+    if (selected === index) setSelected(null);
+    else if (selected !== null && selected > index) setSelected(selected - 1);
+  };
+
+  const add = (type: FieldType) => {
+    onChange([...fields, createField(type, fields.map(field => field.id))]);
+    setSelected(fields.length);
+  };
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-2">
+        {fields.map((field, index) => (
+          <li
+            key={index}
+            className={cn(
+              "rounded-lg border bg-background",
+              dropTarget === index && dragged !== index && "border-primary",
+              dragged === index && "opacity-50"
+            )}
+            onDragOver={(e) => {
+              if (dragged === null) return;
+              e.preventDefault();
+              e.stopPropagation();
+              setDropTarget(index);
+            }}
+            onDrop={(e) => {
+              if (dragged === null) return;
+              e.preventDefault();
+              e.stopPropagation();
+              move(dragged, index);
+              setDragged(null);
+              setDropTarget(null);
+            }}
+          >
+            <div className="flex items-center gap-2 px-2 py-2">
+              <span
+                draggable
+                onDragStart={(e) => {
+                  e.stopPropagation();
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDragged(index);
+                }}
+                onDragEnd={() => {
+                  setDragged(null);
+                  setDropTarget(null);
+                }}
+                className="cursor-grab text-muted-foreground"
+                aria-hidden
+              >
+                <GripVertical className="h-4 w-4" />
+              </span>
+              <button
+                type="button"
+                className="flex flex-1 items-center gap-2 text-left min-w-0"
+                onClick={() => setSelected(selected === index ? null : index)}
+                aria-expanded={selected === index}
+              >
+                <span className="truncate font-medium">{field.label || 'Untitled field'}</span>
+                {field.required && <span className="text-destructive">*</span>}
+                <Badge variant="secondary" className="ml-auto shrink-0 font-normal">
+                  {FIELD_TYPE_LABELS[field.type]}
+                </Badge>
+              </button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => move(index, index - 1)}
+                disabled={index === 0}
+                aria-label={`Move ${field.label} up`}
+              >
+                <ChevronUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => move(index, index + 1)}
+                disabled={index === fields.length - 1}
+                aria-label={`Move ${field.label} down`}
+              >
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-destructive"
+                onClick={() => remove(index)}
+                aria-label={`Delete ${field.label}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {selected === index && (
+              <div className="border-t p-4">
+                <FieldInspector
+                  field={field}
+                  onChange={(changed) => onChange(fields.map((item, i) => i === index ? changed : item))}
+                  types={types}
+                />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add field
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="max-h-80 overflow-y-auto">
+          {types.map(type => (
+            <DropdownMenuItem key={type} onSelect={() => add(type)}>
+              {FIELD_TYPE_LABELS[type]}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useRef, useState } from "react";
+import { Loader2, Paperclip, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { uploadFormFile } from "@/lib/uploads";
+import {
+  fileConstraintError,
+  maxFileCount,
+  maxFileSizeMb,
+  type FileRef,
+  type FormField,
+} from "@shared/form-schema";
+
+interface FileFieldProps {
+  field: FormField;
+  value: FileRef[];
+  onChange: (value: FileRef[]) => void;
+  hasError: boolean;
+  formId?: string;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Uploads files as soon as they are picked; the answer only holds references
+export default function FileField({ field, value, onChange, hasError, formId }: FileFieldProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const maxFiles = maxFileCount(field);
+
+  const handleFiles = async (files: File[]) => {
+    if (!formId) {
+      toast.error("File uploads are available once the form is shared");
+      return;
+    }
+    if (value.length + files.length > maxFiles) {
+      toast.error(`You can attach at most ${maxFiles} file${maxFiles === 1 ? '' : 's'}`);
+      return;
+    }
+    for (const file of files) {
+      const error = fileConstraintError(field, file);
+      if (error) {
+        toast.error(error);
+        return;
+      }
+    }
+
+    setIsUploading(true);
+    try {
+      const uploaded = await Promise.all(files.map(file => uploadFormFile(formId, file)));
+      onChange([...value, ...uploaded]);
+    } catch (error) {
+      console.error('Error uploading file:', error);
+      toast.error("Failed to upload file. Please try again.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const hint = [
+    field.validation?.accept?.join(', '),
+    `up to ${maxFileSizeMb(field)} MB`,
+    maxFiles > 1 ? `${maxFiles} files max` : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        id={field.id}
+        type="file"
+        className="hidden"
+        accept={field.validation?.accept?.join(',')}
+        multiple={maxFiles > 1}
+        onChange={(e) => {
+          handleFiles(Array.from(e.target.files || []));
+          e.target.value = '';
+        }}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        className={cn("w-full justify-start font-normal", hasError && "border-destructive")}
+        disabled={isUploading || value.length >= maxFiles}
+        onClick={() => inputRef.current?.click()}
+      >
+        {isUploading ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Paperclip className="mr-2 h-4 w-4" />
+        )}
+        {isUploading ? 'Uploading...' : field.placeholder || 'Choose file'}
+      </Button>
+      <p className="text-xs text-muted-foreground">{hint}</p>
+      {value.length > 0 && (
+        <ul className="space-y-1">
+          {value.map(file => (
+            <li key={file.path} className="flex items-center justify-between gap-2 rounded-md bg-muted px-3 py-1 text-sm">
+              <span className="truncate">{file.name}</span>
+              <span className="flex items-center gap-2 text-muted-foreground">
+                {formatSize(file.size)}
+                <button
+                  type="button"
+                  aria-label={`Remove ${file.name}`}
+                  onClick={() => onChange(value.filter(item => item.path !== file.path))}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,43 +1,120 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
 import { toast } from "sonner";
-import { Loader2, Sparkles, Brain } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertTriangle, Loader2, Sparkles, Brain, MessageSquare, Send, X, Paperclip, FileText, Globe } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchAIQuota, readSourceDocument, streamGenerateForm, type AIQuota } from "@/lib/generation";
+import {
+  FORM_STATUS_LABELS,
+  hasUnpublishedChanges,
+  publishForm,
+  toFormStatus,
+  type FormStatus,
+} from "@/lib/forms";
 import DynamicForm from "./DynamicForm";
 import ClarificationDialog from "./ClarificationDialog";
+import SchemaDiff from "./SchemaDiff";
+import FieldActions from "./FieldActions";
+import FormEditor from "./FormEditor";
+import OrphanedDataDialog from "./OrphanedDataDialog";
+import {
+  FIELD_ACTION_LABELS,
+  MAX_CLARIFICATION_ROUNDS,
+  MAX_SOURCE_DOCUMENT_SIZE_MB,
+  SOURCE_DOCUMENT_ACCEPT,
+  countAnswers,
+  diffFormSchemas,
+  findOrphanedFields,
+  replaceField,
+  safeParseFormSchema,
+  safeParseGenerationResult,
+  sourceDocumentError,
+  type ClarificationTurn,
+  type FieldAction,
+  type FormData,
+  type FormField,
+  type FormSchema,
+  type GenerationResult,
+  type OrphanedField,
+  type SchemaChange,
+  type SourceDocument,
+} from "@shared/form-schema";
 
-interface FormField {
-  id: string;
-  label: string;
-  type: 'text' | 'email' | 'tel' | 'number' | 'select' | 'textarea';
-  placeholder?: string;
-  required: boolean;
-  validation?: {
-    pattern?: string;
-    message?: string;
-  };
-  options?: string[];
+// An edit instruction sent to the AI, and what became of its result
+interface Refinement {
+  instruction: string;
+  status: 'pending' | 'accepted' | 'rejected';
+}
+
+interface Proposal {
+  schema: FormSchema;
+  changes: SchemaChange[];
+  warnings: string[];
+}
+
+// Warnings reported by generate-form plus any found when parsing its output again
+function collectWarnings(data: unknown, parsedWarnings: string[]): string[] {
+  const reported = data && typeof data === 'object' && 'warnings' in data && Array.isArray(data.warnings)
+    ? data.warnings.filter((warning: unknown): warning is string => typeof warning === 'string')
+    : [];
+  return Array.from(new Set([...reported, ...parsedWarnings]));
 }
 
-interface FormSchema {
-  type: 'form' | 'clarification';
-  title?: string;
-  description?: string;
-  fields?: FormField[];
-  contradiction?: string;
-  questions?: string[];
+interface FormBuilderProps {
+  // Id of a saved form to change instead of creating a new one
+  editFormId?: string;
 }
 
-export default function FormBuilder() {
+// A change waiting for the owner to confirm that it may orphan stored answers
+interface OrphanCheck {
+  fields: OrphanedField[];
+  counts: Record<string, number>;
+  resolve: (confirmed: boolean) => void;
+}
+
+const isJsonObject = (value: unknown): value is FormData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export default function FormBuilder({ editFormId }: FormBuilderProps) {
   const navigate = useNavigate();
   const [description, setDescription] = useState("");
+  // A paper form, Word document or spreadsheet to build the form from
+  const [sourceDocument, setSourceDocument] = useState<SourceDocument | null>(null);
+  const documentInput = useRef<HTMLInputElement>(null);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [formSchema, setFormSchema] = useState<FormSchema | null>(null);
+  const [formSchema, setFormSchema] = useState<GenerationResult | null>(null);
   const [showClarification, setShowClarification] = useState(false);
   const [formId, setFormId] = useState<string | null>(null);
+  // Questions already answered for the current description, oldest first
+  const [clarifications, setClarifications] = useState<ClarificationTurn[]>([]);
+  // Problems found in the generated schema, e.g. unsafe validation patterns
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [instruction, setInstruction] = useState("");
+  const [isRefining, setIsRefining] = useState(false);
+  const [refinements, setRefinements] = useState<Refinement[]>([]);
+  // A refined schema waiting for the user to accept or reject its diff
+  const [proposal, setProposal] = useState<Proposal | null>(null);
+  const [isSavingProposal, setIsSavingProposal] = useState(false);
+  // Id of the field an AI action is running on
+  const [busyField, setBusyField] = useState<string | null>(null);
+  const [isSavingEdits, setIsSavingEdits] = useState(false);
+  const [orphanCheck, setOrphanCheck] = useState<OrphanCheck | null>(null);
+  const [isLoadingForm, setIsLoadingForm] = useState(!!editFormId);
+  // Status of the saved form, and the schema respondents currently see
+  const [status, setStatus] = useState<FormStatus | null>(null);
+  const [publishedSchema, setPublishedSchema] = useState<FormSchema | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  // The form as the AI writes it, shown while generating
+  const [draft, setDraft] = useState<FormSchema | null>(null);
+  const generation = useRef<AbortController | null>(null);
+  // AI generations left today; null until loaded
+  const [quota, setQuota] = useState<AIQuota | null>(null);
   const [user, setUser] = useState<any>(null);
 
   useEffect(() => {
@@ -61,32 +138,106 @@ export default function FormBuilder() {
     return () => subscription.unsubscribe();
   }, [navigate]);
 
-  const generateForm = async () => {
-    if (!description.trim()) {
-      toast.error("Please describe the form you want to create");
+  // Stop a generation still running when leaving the page
+  useEffect(() => () => generation.current?.abort(), []);
+
+  const refreshQuota = async () => {
+    try {
+      setQuota(await fetchAIQuota());
+    } catch (error) {
+      console.error('Error loading AI quota:', error);
+    }
+  };
+
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    fetchAIQuota()
+      .then(setQuota)
+      .catch(error => console.error('Error loading AI quota:', error));
+  }, [userId]);
+
+  // Load the saved form when editing
+  useEffect(() => {
+    if (!editFormId || !userId) return;
+    supabase
+      .from('forms')
+      .select('id, schema, status, published_schema')
+      .eq('id', editFormId)
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error || !data) {
+          if (error) console.error('Error loading form:', error);
+          toast.error("Form not found");
+          navigate("/");
+          return;
+        }
+        const parsed = safeParseFormSchema(data.schema);
+        if (!parsed.success) {
+          console.error('Invalid stored schema:', parsed.error.message, parsed.error.issues);
+          toast.error("This form can't be edited because its schema is invalid");
+          navigate("/");
+          return;
+        }
+        const published = data.published_schema === null ? null : safeParseFormSchema(data.published_schema);
+        setFormSchema(parsed.data);
+        setFormId(data.id);
+        setWarnings(parsed.warnings);
+        setStatus(toFormStatus(data.status));
+        setPublishedSchema(published?.success ? published.data : null);
+        setIsLoadingForm(false);
+      });
+  }, [editFormId, userId, navigate]);
+
+  const isOutOfQuota = quota !== null && quota.remaining === 0;
+
+  const quotaNote = quota && (
+    <p className={`text-sm ${isOutOfQuota ? 'text-destructive' : 'text-muted-foreground'}`}>
+      {isOutOfQuota
+        ? `You've used all ${quota.limit} AI generations for today. More are available from ${new Date(quota.resetsAt).toLocaleString()}.`
+        : `${quota.remaining} of ${quota.limit} AI generations left today`}
+    </p>
+  );
+
+  // Starts a new conversation unless given the clarification rounds so far
+  const generateForm = async (history: ClarificationTurn[] = [], generateAnyway = false) => {
+    if (!description.trim() && !sourceDocument) {
+      toast.error("Please describe the form you want to create or upload a document");
       return;
     }
 
+    const controller = new AbortController();
+    generation.current = controller;
     setIsGenerating(true);
+    setWarnings([]);
+    setClarifications(history);
+    setDraft(null);
     try {
-      const { data, error } = await supabase.functions.invoke('generate-form', {
-        body: { description }
-      });
+      const data = await streamGenerateForm(
+        { description, document: sourceDocument, clarifications: history, generateAnyway },
+        { signal: controller.signal, onProgress: setDraft }
+      );
 
-      if (error) {
-        console.error('Edge function error:', error);
-        toast.error("Failed to generate form. Please try again.");
+      const parsed = safeParseGenerationResult(data);
+      if (!parsed.success) {
+        console.error('Invalid form schema:', parsed.error.message, parsed.error.issues);
+        toast.error("The generated form was invalid. Please try again.");
         return;
       }
 
-      console.log('Generated schema:', data);
-      setFormSchema(data);
+      const result = parsed.data;
+      console.log('Generated schema:', result);
+      setFormSchema(result);
+      setWarnings(collectWarnings(data, parsed.warnings));
+      setRefinements([]);
+      setProposal(null);
 
-      if (data.type === 'clarification') {
+      if (result.type === 'clarification') {
         setShowClarification(true);
         toast.info("We need some clarification about your form");
       } else {
-        // Save form to database for sharing
+        // Save as a draft; it's shared once published
         if (!user) {
           toast.error("You must be logged in to create forms");
           return;
@@ -95,44 +246,291 @@ export default function FormBuilder() {
         const { data: savedForm, error: saveError } = await supabase
           .from('forms')
           .insert({
-            title: data.title || 'Untitled Form',
-            description: data.description || '',
-            schema: data,
+            title: result.title || 'Untitled Form',
+            description: result.description || '',
+            schema: result,
             user_id: user.id,
-            accepting_responses: true
+            status: 'draft'
           })
           .select()
           .single();
 
         if (saveError) {
           console.error('Error saving form:', saveError);
-          toast.error("Form generated but couldn't create shareable link");
+          toast.error("Form generated but couldn't be saved");
         } else {
           setFormId(savedForm.id);
-          toast.success("Form generated successfully!");
+          setStatus('draft');
+          setPublishedSchema(null);
+          toast.success("Form generated and saved as a draft", {
+            description: "Publish it when it's ready to share.",
+          });
         }
       }
     } catch (error) {
-      console.error('Error generating form:', error);
-      toast.error("An error occurred while generating the form");
+      if (controller.signal.aborted) {
+        toast.info("Generation cancelled");
+      } else {
+        console.error('Error generating form:', error);
+        toast.error("Failed to generate form. Please try again.", {
+          description: error instanceof Error ? error.message : undefined,
+        });
+      }
     } finally {
+      generation.current = null;
       setIsGenerating(false);
+      setDraft(null);
+      refreshQuota();
+    }
+  };
+
+  const handleDocument = async (file: File | undefined) => {
+    if (!file) return;
+    const error = sourceDocumentError(file);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    try {
+      setSourceDocument(await readSourceDocument(file));
+    } catch (error) {
+      console.error('Error reading document:', error);
+      toast.error("Couldn't read the file. Please try again.");
+    }
+  };
+
+  const cancelGeneration = () => {
+    generation.current?.abort();
+  };
+
+  const refineForm = async () => {
+    if (formSchema?.type !== 'form' || !instruction.trim()) {
+      return;
+    }
+
+    setIsRefining(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('generate-form', {
+        body: { schema: formSchema, instruction }
+      });
+
+      if (error) {
+        console.error('Edge function error:', error);
+        toast.error("Failed to apply the change. Please try again.");
+        return;
+      }
+
+      const parsed = safeParseGenerationResult(data);
+      if (!parsed.success) {
+        console.error('Invalid form schema:', parsed.error.message, parsed.error.issues);
+        toast.error("The changed form was invalid. Please try again.");
+        return;
+      }
+
+      const result = parsed.data;
+      if (result.type === 'clarification') {
+        toast.info(result.contradiction || "The AI needs more detail to make this change", {
+          description: result.questions.map(({ question }) => question).join(' '),
+        });
+        return;
+      }
+
+      setProposal({
+        schema: result,
+        changes: diffFormSchemas(formSchema, result),
+        warnings: collectWarnings(data, parsed.warnings),
+      });
+      setRefinements(prev => [...prev, { instruction: instruction.trim(), status: 'pending' }]);
+      setInstruction("");
+    } catch (error) {
+      console.error('Error refining form:', error);
+      toast.error("An error occurred while changing the form");
+    } finally {
+      setIsRefining(false);
+      refreshQuota();
+    }
+  };
+
+  const settleProposal = (status: Refinement['status']) => {
+    setRefinements(prev => prev.map(refinement =>
+      refinement.status === 'pending' ? { ...refinement, status } : refinement
+    ));
+    setProposal(null);
+  };
+
+  /**
+   * Asks the owner to confirm a change that removes fields, or changes
+   * their type, when submissions already have answers for them.
+   */
+  const confirmOrphanedAnswers = async (schema: FormSchema): Promise<boolean> => {
+    if (!formId || formSchema?.type !== 'form') return true;
+    const orphaned = findOrphanedFields(formSchema, schema);
+    if (orphaned.length === 0) return true;
+
+    const { data, error } = await supabase
+      .from('form_submissions')
+      .select('form_data')
+      .eq('form_id', formId);
+    if (error) {
+      // Better to ask needlessly than to lose track of answers
+      console.error('Error loading submissions:', error);
+      return new Promise(resolve => setOrphanCheck({ fields: orphaned, counts: {}, resolve }));
+    }
+
+    const answers = (data ?? []).map(row => isJsonObject(row.form_data) ? row.form_data : {});
+    const counts = countAnswers(answers, orphaned.map(field => field.id));
+    const affected = orphaned.filter(field => counts[field.id] > 0);
+    if (affected.length === 0) return true;
+    return new Promise(resolve => setOrphanCheck({ fields: affected, counts, resolve }));
+  };
+
+  const settleOrphanCheck = (confirmed: boolean) => {
+    orphanCheck?.resolve(confirmed);
+    setOrphanCheck(null);
+  };
+
+  // Saves the draft shown in the preview; false when saving failed or was
+  // called off. Respondents keep seeing the published version until the next publish
+  const saveSchema = async (schema: FormSchema): Promise<boolean> => {
+    if (!formId) return true;
+    if (!(await confirmOrphanedAnswers(schema))) return false;
+    const { error } = await supabase
+      .from('forms')
+      .update({
+        title: schema.title || 'Untitled Form',
+        description: schema.description || '',
+        schema,
+      })
+      .eq('id', formId);
+
+    if (error) {
+      console.error('Error saving form:', error);
+      toast.error("Couldn't save the change. Please try again.");
+      return false;
+    }
+    return true;
+  };
+
+  const acceptProposal = async () => {
+    if (!proposal) return;
+
+    setIsSavingProposal(true);
+    const saved = await saveSchema(proposal.schema);
+    setIsSavingProposal(false);
+    if (!saved) return;
+
+    setFormSchema(proposal.schema);
+    setWarnings(proposal.warnings);
+    settleProposal('accepted');
+    toast.success("Change applied");
+  };
+
+  // Saves the form as edited by hand in the editor tab
+  const saveEdits = async (schema: FormSchema, parsedWarnings: string[]) => {
+    setIsSavingEdits(true);
+    const saved = await saveSchema(schema);
+    setIsSavingEdits(false);
+    if (!saved) return;
+
+    setFormSchema(schema);
+    setWarnings(parsedWarnings);
+    toast.success("Form saved");
+  };
+
+  // Has the AI change one field and patches it into the form in place
+  const runFieldAction = async (field: FormField, action: FieldAction) => {
+    if (formSchema?.type !== 'form') return;
+
+    setBusyField(field.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('generate-form', {
+        body: { schema: formSchema, field: field.id, action }
+      });
+
+      if (error) {
+        console.error('Edge function error:', error);
+        toast.error("Failed to change the field. Please try again.");
+        return;
+      }
+
+      const parsed = safeParseFormSchema({
+        ...formSchema,
+        fields: replaceField(formSchema.fields, field.id, data?.field),
+      });
+      if (!parsed.success) {
+        console.error('Invalid form schema:', parsed.error.message, parsed.error.issues);
+        toast.error("The changed field was invalid. Please try again.");
+        return;
+      }
+
+      if (!(await saveSchema(parsed.data))) return;
+      setFormSchema(parsed.data);
+      setWarnings(collectWarnings(data, parsed.warnings));
+      toast.success(`${FIELD_ACTION_LABELS[action]}: "${field.label}" updated`);
+    } catch (error) {
+      console.error('Error changing field:', error);
+      toast.error("An error occurred while changing the field");
+    } finally {
+      setBusyField(null);
+      refreshQuota();
     }
   };
 
   const handleClarificationSubmit = (answers: string[]) => {
-    const updatedDescription = `${description}\n\nClarifications:\n${answers.join('\n')}`;
-    setDescription(updatedDescription);
+    if (formSchema?.type !== 'clarification') return;
     setShowClarification(false);
-    setFormSchema(null);
-    // Auto-regenerate with clarifications
-    setTimeout(() => generateForm(), 100);
+    generateForm([
+      ...clarifications,
+      { contradiction: formSchema.contradiction, questions: formSchema.questions, answers },
+    ]);
+  };
+
+  const handleGenerateAnyway = () => {
+    setShowClarification(false);
+    generateForm(clarifications, true);
   };
 
   const handleFormReset = () => {
+    // Editing a saved form, "New Form" starts from scratch on its own page
+    if (editFormId) {
+      navigate("/create");
+      return;
+    }
     setFormSchema(null);
     setDescription("");
+    setSourceDocument(null);
     setFormId(null);
+    setStatus(null);
+    setPublishedSchema(null);
+    setClarifications([]);
+    setWarnings([]);
+    setRefinements([]);
+    setProposal(null);
+    setInstruction("");
+  };
+
+  const isLive = status === 'published' || status === 'closed';
+  const canPublish = formSchema?.type === 'form' && !!formId
+    && (status === 'draft' || (isLive && hasUnpublishedChanges(formSchema, publishedSchema)));
+
+  // Makes the saved draft the version respondents see
+  const handlePublish = async () => {
+    if (!formId || formSchema?.type !== 'form') return;
+
+    setIsPublishing(true);
+    try {
+      await publishForm(formId);
+      setStatus('published');
+      setPublishedSchema(formSchema);
+      toast.success(status === 'draft' ? "Form published" : "Changes published", {
+        description: "Anyone with the link can now fill it in.",
+      });
+    } catch (error) {
+      console.error('Error publishing form:', error);
+      toast.error("Couldn't publish the form. Please try again.");
+    } finally {
+      setIsPublishing(false);
+    }
   };
 
   const handleCopyLink = () => {
@@ -165,64 +563,197 @@ export default function FormBuilder() {
             <span className="text-sm font-medium text-primary">AI-Powered</span>
           </div>
           <h2 className="text-4xl font-bold mb-4 bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
-            Create a New Form
+            {editFormId ? "Edit Your Form" : "Create a New Form"}
           </h2>
           <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
-            Describe your form in natural language, and watch AI build it instantly
+            {editFormId
+              ? "Ask AI for changes or edit the fields yourself; changes are saved as a draft, and respondents see them once you publish"
+              : "Describe your form in natural language, and watch AI build it instantly"}
           </p>
         </div>
 
         <div className="grid lg:grid-cols-2 gap-8 max-w-7xl mx-auto">
           {/* Left Panel - Input */}
           <Card className="p-6 space-y-6 shadow-strong animate-scale-in">
-            <div className="space-y-2">
-              <h2 className="text-2xl font-semibold flex items-center gap-2">
-                <span className="text-3xl">✍️</span>
-                Describe Your Form
-              </h2>
-              <p className="text-sm text-muted-foreground">
-                Tell us what fields you need. Be as detailed as you like!
-              </p>
-            </div>
+            {/* A saved form is changed through refinement and the editor only */}
+            {!editFormId && (
+              <>
+                <div className="space-y-2">
+                  <h2 className="text-2xl font-semibold flex items-center gap-2">
+                    <span className="text-3xl">✍️</span>
+                    Describe Your Form
+                  </h2>
+                  <p className="text-sm text-muted-foreground">
+                    Tell us what fields you need. Be as detailed as you like!
+                  </p>
+                </div>
 
-            <div className="space-y-4">
-              <Textarea
-                placeholder="Example: Create a form for new club members with name, email, favorite anime, and membership tier (basic, premium, elite)"
-                value={description}
-                onChange={(e) => setDescription(e.target.value)}
-                className="min-h-[200px] resize-none text-base"
-                disabled={isGenerating}
-              />
-
-              <div className="bg-accent/10 p-4 rounded-lg space-y-2">
-                <p className="text-sm font-medium">💡 Pro Tips:</p>
-                <ul className="text-sm text-muted-foreground space-y-1">
-                  <li>• Include field types (email, phone, text, etc.)</li>
-                  <li>• Mention required vs optional fields</li>
-                  <li>• Add dropdown options if needed</li>
-                  <li>• AI will detect contradictions and ask for clarity</li>
-                </ul>
-              </div>
+                <div className="space-y-4">
+                  <Textarea
+                    placeholder="Example: Create a form for new club members with name, email, favorite anime, and membership tier (basic, premium, elite)"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    className="min-h-[200px] resize-none text-base"
+                    disabled={isGenerating}
+                  />
+
+                  <div className="space-y-2">
+                    <input
+                      ref={documentInput}
+                      type="file"
+                      className="hidden"
+                      accept={SOURCE_DOCUMENT_ACCEPT}
+                      onChange={(e) => {
+                        handleDocument(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                    {sourceDocument ? (
+                      <div className="flex items-center justify-between gap-2 rounded-md bg-muted px-3 py-2 text-sm">
+                        <span className="flex items-center gap-2 truncate">
+                          <FileText className="h-4 w-4 shrink-0 text-primary" />
+                          {sourceDocument.name}
+                        </span>
+                        <button
+                          type="button"
+                          aria-label={`Remove ${sourceDocument.name}`}
+                          onClick={() => setSourceDocument(null)}
+                          disabled={isGenerating}
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full justify-start font-normal"
+                        onClick={() => documentInput.current?.click()}
+                        disabled={isGenerating}
+                      >
+                        <Paperclip className="mr-2 h-4 w-4" />
+                        Start from a document
+                      </Button>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Text, CSV, Word or PDF, up to {MAX_SOURCE_DOCUMENT_SIZE_MB} MB. Fields are taken from its blanks, checkboxes or column headers; the description above is applied on top.
+                    </p>
+                  </div>
+
+                  <div className="bg-accent/10 p-4 rounded-lg space-y-2">
+                    <p className="text-sm font-medium">💡 Pro Tips:</p>
+                    <ul className="text-sm text-muted-foreground space-y-1">
+                      <li>• Include field types (email, phone, text, etc.)</li>
+                      <li>• Mention required vs optional fields</li>
+                      <li>• Add dropdown options if needed</li>
+                      <li>• AI will detect contradictions and ask for clarity</li>
+                      <li>• Refine the result afterwards with follow-up instructions</li>
+                      <li>• Use the wand next to a field in the preview to fix just that field</li>
+                    </ul>
+                  </div>
 
-              <Button
-                onClick={generateForm}
-                disabled={isGenerating || !description.trim()}
-                className="w-full h-12 text-base font-semibold"
-                size="lg"
-              >
-                {isGenerating ? (
-                  <>
-                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                    Generating Form...
-                  </>
-                ) : (
-                  <>
-                    <Sparkles className="mr-2 h-5 w-5" />
-                    Generate Form
-                  </>
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() => generateForm()}
+                      disabled={isGenerating || isOutOfQuota || (!description.trim() && !sourceDocument)}
+                      className="flex-1 h-12 text-base font-semibold"
+                      size="lg"
+                    >
+                      {isGenerating ? (
+                        <>
+                          <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                          Generating Form...
+                        </>
+                      ) : (
+                        <>
+                          <Sparkles className="mr-2 h-5 w-5" />
+                          Generate Form
+                        </>
+                      )}
+                    </Button>
+                    {isGenerating && (
+                      <Button
+                        onClick={cancelGeneration}
+                        variant="outline"
+                        className="h-12 gap-2"
+                        size="lg"
+                      >
+                        <X className="h-5 w-5" />
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                  {quotaNote}
+                </div>
+              </>
+            )}
+
+            {formSchema?.type === 'form' && (
+              <div className={editFormId ? "space-y-4" : "space-y-4 border-t pt-6"}>
+                <div className="space-y-2">
+                  <h3 className="text-lg font-semibold flex items-center gap-2">
+                    <MessageSquare className="w-5 h-5 text-primary" />
+                    Refine Your Form
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    Ask for changes, e.g. "make phone optional" or "add a field for dietary needs". You'll see what changes before it's applied.
+                  </p>
+                </div>
+
+                {refinements.length > 0 && (
+                  <ul className="space-y-2">
+                    {refinements.map((refinement, index) => (
+                      <li key={index} className="flex flex-col items-end gap-1">
+                        <span className="max-w-[85%] rounded-lg bg-primary/10 px-3 py-2 text-sm">
+                          {refinement.instruction}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {refinement.status === 'pending' ? 'Waiting for review' : refinement.status === 'accepted' ? 'Applied' : 'Discarded'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
                 )}
-              </Button>
-            </div>
+
+                {proposal && (
+                  <div className="rounded-lg border p-4 space-y-3">
+                    <p className="text-sm font-medium">Proposed changes</p>
+                    <SchemaDiff
+                      changes={proposal.changes}
+                      onAccept={acceptProposal}
+                      onReject={() => settleProposal('rejected')}
+                      isSaving={isSavingProposal}
+                    />
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Textarea
+                    placeholder="Describe a change..."
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        refineForm();
+                      }
+                    }}
+                    className="min-h-[44px] resize-none"
+                    rows={1}
+                    disabled={isRefining || !!proposal}
+                  />
+                  <Button
+                    onClick={refineForm}
+                    disabled={isRefining || isOutOfQuota || !!proposal || !instruction.trim()}
+                    className="gap-2 self-end"
+                  >
+                    {isRefining ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                    Refine
+                  </Button>
+                </div>
+                {editFormId && quotaNote}
+              </div>
+            )}
           </Card>
 
           {/* Right Panel - Preview */}
@@ -232,26 +763,108 @@ export default function FormBuilder() {
                 <div className="flex items-center gap-2">
                   <span className="text-3xl">👁️</span>
                   <h2 className="text-2xl font-semibold">Live Preview</h2>
+                  {formSchema?.type === 'form' && formId && status && (
+                    <Badge variant={status === 'published' ? 'default' : 'secondary'}>
+                      {FORM_STATUS_LABELS[status]}
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {canPublish && (
+                    <Button
+                      onClick={handlePublish}
+                      size="sm"
+                      className="gap-2"
+                      disabled={isPublishing || !!proposal}
+                    >
+                      {isPublishing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Globe className="h-4 w-4" />}
+                      {status === 'draft' ? 'Publish' : 'Publish Changes'}
+                    </Button>
+                  )}
+                  {formSchema?.type === 'form' && formId && isLive && (
+                    <Button
+                      onClick={handleCopyLink}
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                    >
+                      <span className="text-lg">🔗</span>
+                      Copy Link
+                    </Button>
+                  )}
                 </div>
-                {formSchema?.type === 'form' && formId && (
-                  <Button
-                    onClick={handleCopyLink}
-                    variant="outline"
-                    size="sm"
-                    className="gap-2"
-                  >
-                    <span className="text-lg">🔗</span>
-                    Copy Link
-                  </Button>
-                )}
               </div>
               <p className="text-sm text-muted-foreground">
-                Your form will appear here in real-time
+                {canPublish
+                  ? status === 'draft'
+                    ? "This is a draft. Publish it to share it with respondents."
+                    : "Respondents still see the last published version until you publish these changes."
+                  : "Your form will appear here in real-time"}
               </p>
             </div>
 
-            {formSchema?.type === 'form' ? (
-              <DynamicForm schema={formSchema} onReset={handleFormReset} />
+            {formSchema?.type === 'form' && warnings.length > 0 && (
+              <Alert className="mb-6">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Some validation rules were removed</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-4 space-y-1">
+                    {warnings.map(warning => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {isLoadingForm ? (
+              <div className="flex items-center justify-center gap-2 py-12 text-muted-foreground">
+                <Loader2 className="h-5 w-5 animate-spin" />
+                Loading form...
+              </div>
+            ) : isGenerating && draft ? (
+              <div className="space-y-4">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {draft.fields.length === 0
+                    ? "Writing your form..."
+                    : `${draft.fields.length} field${draft.fields.length === 1 ? '' : 's'} so far...`}
+                </div>
+                {/* Not fillable until generation finishes */}
+                <div className="pointer-events-none opacity-80" aria-busy="true">
+                  <DynamicForm key="draft" schema={draft} onReset={cancelGeneration} />
+                </div>
+              </div>
+            ) : formSchema?.type === 'form' ? (
+              <Tabs defaultValue="preview">
+                <TabsList className="grid w-full grid-cols-2 mb-6">
+                  <TabsTrigger value="preview">Preview</TabsTrigger>
+                  <TabsTrigger value="edit">Edit Fields</TabsTrigger>
+                </TabsList>
+                <TabsContent value="preview">
+                  <DynamicForm
+                    schema={formSchema}
+                    onReset={handleFormReset}
+                    renderFieldActions={field => (
+                      <FieldActions
+                        field={field}
+                        onAction={action => runFieldAction(field, action)}
+                        isBusy={busyField === field.id}
+                        disabled={busyField !== null || isRefining || isOutOfQuota || !!proposal}
+                      />
+                    )}
+                  />
+                </TabsContent>
+                {/* Kept mounted so unsaved edits survive switching tabs */}
+                <TabsContent value="edit" forceMount className="data-[state=inactive]:hidden">
+                  <FormEditor
+                    schema={formSchema}
+                    onSave={saveEdits}
+                    isSaving={isSavingEdits}
+                    saveBlockedReason={proposal ? "Accept or discard the proposed AI change first" : undefined}
+                  />
+                </TabsContent>
+              </Tabs>
             ) : (
               <div className="flex items-center justify-center min-h-[400px] border-2 border-dashed border-muted rounded-lg">
                 <div className="text-center space-y-3 p-8">
@@ -269,14 +882,25 @@ export default function FormBuilder() {
         </div>
       </div>
 
+      <OrphanedDataDialog
+        fields={orphanCheck?.fields ?? null}
+        counts={orphanCheck?.counts ?? {}}
+        onConfirm={() => settleOrphanCheck(true)}
+        onCancel={() => settleOrphanCheck(false)}
+      />
+
       {/* Clarification Dialog */}
       {formSchema?.type === 'clarification' && (
         <ClarificationDialog
+          key={clarifications.length}
           open={showClarification}
           onOpenChange={setShowClarification}
           contradiction={formSchema.contradiction || ""}
           questions={formSchema.questions || []}
+          round={clarifications.length + 1}
+          maxRounds={MAX_CLARIFICATION_ROUNDS}
           onSubmit={handleClarificationSubmit}
+          onGenerateAnyway={handleGenerateAnyway}
         />
       )}
     </div>
@@ -0,0 +1,132 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, Loader2, Save } from "lucide-react";
+import type { ZodIssue } from "zod";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  FIELD_TYPES,
+  dropSlowPatterns,
+  formSchemaSchema,
+  tidyFormSchema,
+  type FormField,
+  type FormSchema,
+} from "@shared/form-schema";
+import FieldList from "./FieldList";
+
+// The schema's own checks name the field; zod's built-in ones (such as a
+// blank label) only have a path, so those get the field's id in front
+function describeIssue(issue: ZodIssue, fields: FormField[]): string {
+  const [key, index, ...rest] = issue.path;
+  if (issue.code === 'custom' || key !== 'fields' || typeof index !== 'number' || !fields[index]) {
+    return issue.message;
+  }
+  const { id } = fields[index];
+  return `Field ${id ? `"${id}"` : `#${index + 1}`}, ${rest.join('.')}: ${issue.message}`;
+}
+
+interface FormEditorProps {
+  schema: FormSchema;
+  onSave: (schema: FormSchema, warnings: string[]) => Promise<void>;
+  isSaving: boolean;
+  // Why saving isn't possible right now, e.g. an AI change awaiting review
+  saveBlockedReason?: string;
+}
+
+/**
+ * Edits a copy of the form by hand. Changes are checked against the schema
+ * as they are made and only saved once the whole form is valid.
+ */
+export default function FormEditor({ schema, onSave, isSaving, saveBlockedReason }: FormEditorProps) {
+  const [draft, setDraft] = useState<FormSchema>(schema);
+
+  // Start over from the saved form when it changes elsewhere (e.g. an AI refinement)
+  useEffect(() => setDraft(schema), [schema]);
+
+  // Checked strictly rather than with safeParseFormSchema, which would
+  // quietly repair mistakes on save: drop a calculated field with a typo in
+  // its expression, turn a select without options into text, rename a
+  // duplicate id or drop a condition on a later field
+  const parsed = useMemo(() => formSchemaSchema.safeParse(tidyFormSchema(draft)), [draft]);
+  const problems = useMemo(() => {
+    if (!parsed.success) {
+      return Array.from(new Set(parsed.error.issues.map(issue => describeIssue(issue, draft.fields))));
+    }
+    return parsed.data.fields.length === 0 ? ['Add at least one field'] : [];
+  }, [parsed, draft]);
+  const isDirty = useMemo(() => JSON.stringify(draft) !== JSON.stringify(schema), [draft, schema]);
+
+  const handleSave = async () => {
+    if (!parsed.success || problems.length > 0) return;
+    // Timed only on save, see dropSlowPatterns
+    const vetted = dropSlowPatterns(parsed.data);
+    await onSave(vetted.schema, vetted.warnings);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="form-title">Title</Label>
+          <Input
+            id="form-title"
+            value={draft.title ?? ''}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="form-description">Description</Label>
+          <Textarea
+            id="form-description"
+            value={draft.description ?? ''}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            rows={2}
+          />
+        </div>
+      </div>
+
+      <FieldList
+        fields={draft.fields}
+        onChange={(fields) => setDraft({ ...draft, fields })}
+        types={FIELD_TYPES}
+      />
+
+      {problems.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Fix these problems to save</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {problems.map((problem, index) => (
+                <li key={index}>{problem}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center gap-2 border-t pt-4">
+        <Button
+          onClick={handleSave}
+          disabled={!isDirty || problems.length > 0 || isSaving || !!saveBlockedReason}
+          className="gap-2"
+        >
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          Save changes
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => setDraft(schema)}
+          disabled={!isDirty || isSaving}
+        >
+          Discard
+        </Button>
+        {saveBlockedReason && isDirty && (
+          <p className="text-sm text-muted-foreground">{saveBlockedReason}</p>
+        )}
+      </div>
+    </div>
+  );
+}
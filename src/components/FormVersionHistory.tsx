@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchFormVersions, type FormVersion } from "@/lib/forms";
+import { diffFormSchemas } from "@shared/form-schema";
+import SchemaDiff from "./SchemaDiff";
+
+// Versions of the form, and how many submissions are pinned to each by version id
+async function loadHistory(formId: string) {
+  const [versions, { data, error }] = await Promise.all([
+    fetchFormVersions(formId),
+    supabase.from("form_submissions").select("version_id").eq("form_id", formId),
+  ]);
+  if (error) throw error;
+
+  const responses: Record<string, number> = {};
+  for (const { version_id } of data ?? []) {
+    if (version_id) responses[version_id] = (responses[version_id] ?? 0) + 1;
+  }
+  return { versions, responses };
+}
+
+interface FormVersionHistoryProps {
+  // The form whose history is shown; the dialog is open while set
+  form: { id: string; title: string; published_version_id: string | null } | null;
+  onClose: () => void;
+  // Called after an earlier version was made the draft again
+  onRestored: () => void;
+}
+
+/**
+ * Timeline of a form's versions, newest first, each with what changed since
+ * the one before it and how many responses it received. Restoring saves an
+ * earlier version as a new draft, so the history itself never changes.
+ */
+export default function FormVersionHistory({ form, onClose, onRestored }: FormVersionHistoryProps) {
+  const [versions, setVersions] = useState<FormVersion[]>([]);
+  // Submissions pinned to each version, by version id
+  const [responses, setResponses] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  // Bumped to reload the history after a restore
+  const [revision, setRevision] = useState(0);
+
+  const formId = form?.id;
+
+  useEffect(() => {
+    if (!formId) return;
+    setLoading(true);
+    loadHistory(formId)
+      .then(history => {
+        setVersions(history.versions);
+        setResponses(history.responses);
+      })
+      .catch(error => {
+        console.error('Error loading version history:', error);
+        toast.error("Couldn't load the version history", {
+          description: error instanceof Error ? error.message : undefined,
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [formId, revision]);
+
+  const handleClose = () => {
+    setVersions([]);
+    setResponses({});
+    onClose();
+  };
+
+  const restore = async (version: FormVersion) => {
+    if (!formId || !version.schema) return;
+
+    setRestoring(version.id);
+    const { error } = await supabase
+      .from("forms")
+      .update({
+        title: version.schema.title || "Untitled Form",
+        description: version.schema.description || "",
+        schema: version.schema,
+      })
+      .eq("id", formId);
+    setRestoring(null);
+
+    if (error) {
+      console.error('Error restoring version:', error);
+      toast.error("Couldn't restore the version. Please try again.");
+      return;
+    }
+
+    toast.success(`Version ${version.version} restored`, {
+      description: "It was saved as a new draft. Publish it to make it live.",
+    });
+    onRestored();
+    setRevision(revision => revision + 1);
+  };
+
+  return (
+    <Dialog open={!!form} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            {form?.title} - Version History
+          </DialogTitle>
+          <DialogDescription>
+            Every saved change to the form. Responses are always shown with the questions of the version they answered.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && versions.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">
+            No versions saved yet
+          </div>
+        ) : (
+          <ol className="space-y-6 border-l pl-6">
+            {versions.map((version, index) => {
+              const previous = versions[index + 1];
+              const count = responses[version.id] ?? 0;
+              return (
+                <li key={version.id} className="relative space-y-3">
+                  <span className="absolute -left-[29px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" aria-hidden />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">Version {version.version}</span>
+                    {index === 0 && <Badge variant="secondary">Latest draft</Badge>}
+                    {version.id === form?.published_version_id && <Badge>Published</Badge>}
+                    <span className="text-sm text-muted-foreground">
+                      {new Date(version.created_at).toLocaleString()}
+                      {" · "}
+                      {count} response{count === 1 ? "" : "s"}
+                    </span>
+                    {index > 0 && version.schema && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restore(version)}
+                        disabled={!!restoring}
+                        className="ml-auto gap-2"
+                      >
+                        {restoring === version.id
+                          ? <Loader2 className="w-4 h-4 animate-spin" />
+                          : <RotateCcw className="w-4 h-4" />}
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                  {!version.schema ? (
+                    <p className="text-sm text-muted-foreground">This version can't be read any more.</p>
+                  ) : !previous ? (
+                    <p className="text-sm text-muted-foreground">
+                      First version, with {version.schema.fields.length} field{version.schema.fields.length === 1 ? "" : "s"}.
+                    </p>
+                  ) : previous.schema ? (
+                    <SchemaDiff changes={diffFormSchemas(previous.schema, version.schema)} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Changes can't be shown, as the version before can't be read.</p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,82 @@
+import type { ReactNode } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  getVisibleFields,
+  initialGroupItemCount,
+  type FormField,
+  type FormValue,
+  type GroupItem,
+  type GroupSubField,
+} from "@shared/form-schema";
+
+interface GroupFieldProps {
+  field: FormField;
+  // undefined until the respondent touches the group
+  value: GroupItem[] | undefined;
+  onChange: (value: GroupItem[]) => void;
+  hasError: boolean;
+  renderSubField: (
+    subField: GroupSubField,
+    answer: FormValue | undefined,
+    onChange: (value: FormValue) => void
+  ) => ReactNode;
+}
+
+// Renders one card per entry of a repeatable group. Sub-field ids are scoped
+// to the entry, so their visibleIf rules only look at answers in that entry.
+export default function GroupField({ field, value, onChange, hasError, renderSubField }: GroupFieldProps) {
+  const items = value ?? Array.from({ length: initialGroupItemCount(field) }, (): GroupItem => ({}));
+  const { minItems = 0, maxItems } = field.validation || {};
+
+  const updateItem = (index: number, subFieldId: string, answer: FormValue) => {
+    onChange(items.map((item, i) => i === index ? { ...item, [subFieldId]: answer } : item));
+  };
+
+  return (
+    <div id={field.id} className="space-y-3">
+      {items.map((item, index) => (
+        <div
+          key={index}
+          className={cn("space-y-4 rounded-md border p-4", hasError && "border-destructive")}
+        >
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-muted-foreground">
+              {field.label} #{index + 1}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              aria-label={`Remove ${field.label} #${index + 1}`}
+              disabled={items.length <= minItems}
+              onClick={() => onChange(items.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          {getVisibleFields(field.fields || [], item).map(subField => (
+            <div key={subField.id}>
+              {renderSubField(
+                { ...subField, id: `${field.id}-${index}-${subField.id}` },
+                item[subField.id],
+                answer => updateItem(index, subField.id, answer)
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={maxItems !== undefined && items.length >= maxItems}
+        onClick={() => onChange([...items, {}])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add {items.length > 0 ? 'another' : 'an entry'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { FIELD_TYPE_LABELS, type OrphanedField } from "@shared/form-schema";
+
+interface OrphanedDataDialogProps {
+  // Fields with answers the change would leave behind; the dialog is open while set
+  fields: OrphanedField[] | null;
+  // Submissions with an answer, by field id
+  counts: Record<string, number>;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const describeChange = (field: OrphanedField) =>
+  field.reason === 'removed'
+    ? 'removed'
+    : `changed from ${FIELD_TYPE_LABELS[field.from]} to ${FIELD_TYPE_LABELS[field.to ?? field.from]}`;
+
+// Asks before saving a change to a form that already has responses for the fields it affects
+export default function OrphanedDataDialog({ fields, counts, onConfirm, onCancel }: OrphanedDataDialogProps) {
+  return (
+    <AlertDialog open={!!fields} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Some responses will lose their field</AlertDialogTitle>
+          <AlertDialogDescription>
+            These fields already have answers. The answers stay with the version of the form they were given for,
+            but responses to the new version won't have them.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="list-disc pl-5 space-y-1 text-sm">
+          {fields?.map(field => (
+            <li key={field.id}>
+              <span className="font-medium">{field.label}</span> {describeChange(field)}
+              {counts[field.id] !== undefined && (
+                <span className="text-muted-foreground">
+                  {' '}({counts[field.id]} response{counts[field.id] === 1 ? '' : 's'})
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep editing</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Save anyway</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
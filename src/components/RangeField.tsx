@@ -0,0 +1,99 @@
+import { Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { cn } from "@/lib/utils";
+import { resolveRange, type FormField } from "@shared/form-schema";
+
+interface RangeFieldProps {
+  field: FormField;
+  value: number | undefined;
+  onChange: (value: number) => void;
+  hasError: boolean;
+}
+
+// Renders rating (stars), scale (one button per point, e.g. Likert or NPS)
+// and slider fields. All of them answer with a number inside the field's range.
+export default function RangeField({ field, value, onChange, hasError }: RangeFieldProps) {
+  const range = resolveRange(field);
+  const points: number[] = [];
+  for (let point = range.min; point <= range.max; point += range.step) {
+    points.push(point);
+  }
+
+  const labels = (range.minLabel || range.maxLabel) && (
+    <div className="flex justify-between text-xs text-muted-foreground">
+      <span>{range.minLabel}</span>
+      <span>{range.maxLabel}</span>
+    </div>
+  );
+
+  if (field.type === 'rating') {
+    return (
+      <div id={field.id} role="radiogroup" className="flex gap-1">
+        {points.map(point => (
+          <button
+            key={point}
+            type="button"
+            role="radio"
+            aria-checked={value === point}
+            aria-label={`${point} of ${range.max}`}
+            onClick={() => onChange(point)}
+            className="p-1 rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            <Star
+              className={cn(
+                "h-6 w-6",
+                value !== undefined && point <= value ? "fill-primary text-primary" : "text-muted-foreground",
+                hasError && value === undefined && "text-destructive"
+              )}
+            />
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  if (field.type === 'scale') {
+    return (
+      <div className="space-y-1">
+        <div id={field.id} role="radiogroup" className="flex flex-wrap gap-1">
+          {points.map(point => (
+            <Button
+              key={point}
+              type="button"
+              role="radio"
+              aria-checked={value === point}
+              variant={value === point ? "default" : "outline"}
+              size="sm"
+              onClick={() => onChange(point)}
+              className={cn("min-w-9 flex-1", hasError && "border-destructive")}
+            >
+              {point}
+            </Button>
+          ))}
+        </div>
+        {labels}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-4">
+        <Slider
+          id={field.id}
+          min={range.min}
+          max={range.max}
+          step={range.step}
+          value={[value ?? range.min]}
+          onValueChange={([next]) => onChange(next)}
+          className={cn(value === undefined && "opacity-60")}
+        />
+        <span className={cn("w-12 text-right text-sm tabular-nums", hasError && "text-destructive")}>
+          {value ?? '—'}
+        </span>
+      </div>
+      {labels}
+    </div>
+  );
+}
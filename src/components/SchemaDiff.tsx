@@ -0,0 +1,65 @@
+import { Check, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { SchemaChange, SchemaChangeKind } from "@shared/form-schema";
+
+interface SchemaDiffProps {
+  changes: SchemaChange[];
+  // Omit both to show the diff read-only
+  onAccept?: () => void;
+  onReject?: () => void;
+  isSaving?: boolean;
+}
+
+const KIND_STYLES: Record<SchemaChangeKind, { label: string; className: string }> = {
+  form: { label: 'Form', className: 'bg-muted text-foreground' },
+  added: { label: 'Added', className: 'bg-green-500/15 text-green-700 dark:text-green-400' },
+  removed: { label: 'Removed', className: 'bg-destructive/15 text-destructive' },
+  changed: { label: 'Changed', className: 'bg-amber-500/15 text-amber-700 dark:text-amber-400' },
+};
+
+// Lists the changes between two versions of a form, with optional accept/reject actions
+export default function SchemaDiff({ changes, onAccept, onReject, isSaving }: SchemaDiffProps) {
+  return (
+    <div className="space-y-3">
+      {changes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes</p>
+      ) : (
+        <ul className="space-y-2">
+          {changes.map(change => (
+            <li key={`${change.kind}-${change.id}`} className="flex items-start gap-2 text-sm">
+              <Badge variant="outline" className={cn("shrink-0 border-transparent", KIND_STYLES[change.kind].className)}>
+                {KIND_STYLES[change.kind].label}
+              </Badge>
+              <div className="min-w-0">
+                <span className={cn("font-medium", change.kind === 'removed' && "line-through")}>
+                  {change.label}
+                </span>
+                {change.details.length > 0 && (
+                  <span className="text-muted-foreground"> — {change.details.join('; ')}</span>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {(onAccept || onReject) && (
+        <div className="flex gap-2">
+          {onAccept && (
+            <Button type="button" size="sm" onClick={onAccept} disabled={isSaving} className="gap-1">
+              <Check className="h-4 w-4" />
+              Accept
+            </Button>
+          )}
+          {onReject && (
+            <Button type="button" size="sm" variant="outline" onClick={onReject} disabled={isSaving} className="gap-1">
+              <X className="h-4 w-4" />
+              Reject
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
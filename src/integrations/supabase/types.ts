@@ -14,6 +14,63 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_quota_overrides: {
+        Row: {
+          daily_limit: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          daily_limit: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          daily_limit?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      ai_usage: {
+        Row: {
+          completion_tokens: number | null
+          created_at: string
+          error: string | null
+          id: string
+          latency_ms: number | null
+          mode: string
+          outcome: string
+          prompt_tokens: number | null
+          provider: string
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          latency_ms?: number | null
+          mode: string
+          outcome?: string
+          prompt_tokens?: number | null
+          provider: string
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          latency_ms?: number | null
+          mode?: string
+          outcome?: string
+          prompt_tokens?: number | null
+          provider?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       form_submissions: {
         Row: {
           created_at: string
@@ -21,6 +78,7 @@ export type Database = {
           form_id: string | null
           form_title: string
           id: string
+          version_id: string | null
         }
         Insert: {
           created_at?: string
@@ -28,6 +86,7 @@ export type Database = {
           form_id?: string | null
           form_title: string
           id?: string
+          version_id?: string | null
         }
         Update: {
           created_at?: string
@@ -35,6 +94,7 @@ export type Database = {
           form_id?: string | null
           form_title?: string
           id?: string
+          version_id?: string | null
         }
         Relationships: [
           {
@@ -44,44 +104,117 @@ export type Database = {
             referencedRelation: "forms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "form_submissions_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "form_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      form_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          form_id: string
+          id: string
+          schema: Json
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          form_id: string
+          id?: string
+          schema: Json
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          form_id?: string
+          id?: string
+          schema?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_versions_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
         ]
       }
       forms: {
         Row: {
-          accepting_responses: boolean | null
           created_at: string
           description: string | null
           id: string
+          published_at: string | null
+          published_schema: Json | null
+          published_version_id: string | null
           schema: Json
+          status: string
           title: string
           user_id: string | null
         }
         Insert: {
-          accepting_responses?: boolean | null
           created_at?: string
           description?: string | null
           id?: string
+          published_at?: string | null
+          published_schema?: Json | null
+          published_version_id?: string | null
           schema: Json
+          status?: string
           title: string
           user_id?: string | null
         }
         Update: {
-          accepting_responses?: boolean | null
           created_at?: string
           description?: string | null
           id?: string
+          published_at?: string | null
+          published_schema?: Json | null
+          published_version_id?: string | null
           schema?: Json
+          status?: string
           title?: string
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "forms_published_version_id_fkey"
+            columns: ["published_version_id"]
+            isOneToOne: false
+            referencedRelation: "form_versions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      form_accepts_responses: {
+        Args: { target_form_id: string }
+        Returns: boolean
+      }
+      get_published_form: {
+        Args: { target_form_id: string }
+        Returns: {
+          published_schema: Json
+          status: string
+        }[]
+      }
+      publish_form: {
+        Args: { target_form_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
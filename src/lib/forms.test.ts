@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { update } = vi.hoisted(() => ({ update: vi.fn() }));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: () => ({
+      update: (values: unknown) => ({
+        eq: (_column: string, id: string) => {
+          update(id, values);
+          return Promise.resolve({ error: null });
+        },
+      }),
+    }),
+  },
+}));
+
+import { upgradeStoredSchemas } from "./forms";
+
+const field = { id: 'name', label: 'Name', type: 'text', required: false };
+
+describe('upgradeStoredSchemas', () => {
+  beforeEach(() => {
+    update.mockClear();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes back only the migrated schema', async () => {
+    await upgradeStoredSchemas([{ id: 'old', schema: { type: 'form', title: 'Signup', fields: [field] } }]);
+    expect(update).toHaveBeenCalledWith('old', {
+      schema: { type: 'form', title: 'Signup', fields: [field], schemaVersion: 2 },
+    });
+  });
+
+  it('skips current schemas', async () => {
+    await upgradeStoredSchemas([{ id: 'current', schema: { type: 'form', schemaVersion: 2, fields: [field] } }]);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('leaves schemas that need repairs for their owner', async () => {
+    await upgradeStoredSchemas([
+      { id: 'no-options', schema: { type: 'form', fields: [{ ...field, type: 'select', options: [] }] } },
+      { id: 'duplicate', schema: { type: 'form', fields: [field, field] } },
+      { id: 'alias', schema: { type: 'form', fields: [{ ...field, type: 'dropdown', options: ['A'] }] } },
+    ]);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,260 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { removeAllFormFiles } from "@/lib/uploads";
+import {
+  formSchemaSchema,
+  isFileRef,
+  migrateFormSchema,
+  needsMigration,
+  safeParseFormSchema,
+  type FormField,
+  type FormSchema,
+} from "@shared/form-schema";
+
+interface StoredForm {
+  id: string;
+  schema: Json;
+}
+
+/**
+ * Writes migrated schemas back for forms saved by an older version of the
+ * app, so they don't have to be upgraded again on every read. Only the
+ * owner can update a form, so this is run from the Dashboard.
+ *
+ * Only the migration itself is written: a schema that would also need
+ * repairing (which can drop fields, options or patterns) is left as it is
+ * for its owner to fix in the editor, where they see what changes.
+ */
+export async function upgradeStoredSchemas(forms: StoredForm[]) {
+  const outdated = forms.filter(form =>
+    form.schema && typeof form.schema === 'object' && !Array.isArray(form.schema) && needsMigration(form.schema)
+  );
+
+  for (const form of outdated) {
+    let migrated: Record<string, unknown>;
+    try {
+      migrated = migrateFormSchema(form.schema as Record<string, unknown>).schema;
+    } catch (error) {
+      console.error(`Can't migrate schema of form ${form.id}:`, error);
+      continue;
+    }
+    const check = formSchemaSchema.safeParse(migrated);
+    if (!check.success) {
+      console.warn(`Not saving migrated schema of form ${form.id}, it needs repairs:`, check.error.issues);
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('forms')
+      .update({ schema: migrated as Json })
+      .eq('id', form.id);
+
+    if (error) {
+      console.error(`Error saving migrated schema of form ${form.id}:`, error);
+    }
+  }
+}
+
+export const FORM_STATUSES = ['draft', 'published', 'closed', 'archived'] as const;
+export type FormStatus = typeof FORM_STATUSES[number];
+
+export const FORM_STATUS_LABELS: Record<FormStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  closed: 'Closed',
+  archived: 'Archived',
+};
+
+// Statuses are stored as text; anything unexpected is treated as a draft
+export const toFormStatus = (value: string): FormStatus =>
+  (FORM_STATUSES as readonly string[]).includes(value) ? value as FormStatus : 'draft';
+
+// Makes the form's current draft the live version and opens it for responses
+export async function publishForm(formId: string) {
+  const { error } = await supabase.rpc('publish_form', { target_form_id: formId });
+  if (error) throw error;
+}
+
+/**
+ * Moves a form between statuses without touching what is published, e.g.
+ * closing it or reopening it. Use publishForm to publish the draft.
+ */
+export async function setFormStatus(formId: string, status: FormStatus) {
+  const { error } = await supabase
+    .from('forms')
+    .update({ status })
+    .eq('id', formId);
+  if (error) throw error;
+}
+
+// Archived forms go back to closed if they were ever published, so they don't reopen by surprise
+export const unarchivedStatus = (form: { published_schema: Json | null }): FormStatus =>
+  form.published_schema === null ? 'draft' : 'closed';
+
+/**
+ * Deletes a form with its uploaded files. Submissions and versions go with
+ * the form row (ON DELETE CASCADE). Files are removed first, while the form
+ * still proves ownership to the storage policies; if that fails, nothing is
+ * deleted and it can be retried.
+ */
+export async function deleteForm(formId: string) {
+  await removeAllFormFiles(formId);
+
+  const { error } = await supabase
+    .from('forms')
+    .delete()
+    .eq('id', formId);
+  if (error) throw error;
+}
+
+/**
+ * Saves a copy of the form's draft as a new, unpublished form. Submissions
+ * and version history stay with the original. Returns the new form's id.
+ */
+export async function duplicateForm(
+  form: { title: string; description: string | null; schema: Json },
+  userId: string
+): Promise<string> {
+  const parsed = safeParseFormSchema(form.schema);
+  if (!parsed.success) {
+    throw new Error("This form's schema is invalid, so it can't be copied");
+  }
+
+  const title = `${form.title} (copy)`;
+  const { data, error } = await supabase
+    .from('forms')
+    .insert({
+      title,
+      description: form.description ?? '',
+      schema: { ...parsed.data, title },
+      user_id: userId,
+      status: 'draft',
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+// Compares parsed schemas, so key order and migrations don't count as changes
+const normalizeSchema = (schema: unknown) => {
+  const parsed = safeParseFormSchema(schema);
+  return JSON.stringify(parsed.success ? parsed.data : schema);
+};
+
+// Whether the draft was edited since it was last published
+export const hasUnpublishedChanges = (draft: unknown, published: unknown) =>
+  published !== null && published !== undefined && normalizeSchema(draft) !== normalizeSchema(published);
+
+export interface FormVersion {
+  id: string;
+  version: number;
+  created_at: string;
+  // null when the stored schema can't be read any more
+  schema: FormSchema | null;
+}
+
+// The saved versions of a form, newest first
+export async function fetchFormVersions(formId: string): Promise<FormVersion[]> {
+  const { data, error } = await supabase
+    .from('form_versions')
+    .select('id, version, created_at, schema')
+    .eq('form_id', formId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+
+  return (data ?? []).map(row => {
+    const parsed = safeParseFormSchema(row.schema);
+    if (!parsed.success) {
+      console.error(`Invalid schema in version ${row.version} of form ${formId}:`, parsed.error.message, parsed.error.issues);
+    }
+    return { ...row, schema: parsed.success ? parsed.data : null };
+  });
+}
+
+export function formatFormValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.map(formatFormValue).join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (isFileRef(value)) return value.name;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+interface LabelledAnswer {
+  key: string;
+  label: string;
+  value: Json | undefined;
+}
+
+const isJsonObject = (value: Json | undefined): value is { [key: string]: Json | undefined } =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Known fields in form order, then any other keys of the answers
+function labelAnswers(
+  fields: Pick<FormField, 'id' | 'label'>[],
+  data: { [key: string]: Json | undefined },
+  keyPrefix = '',
+  labelPrefix = ''
+): LabelledAnswer[] {
+  const known = new Set(fields.map(field => field.id));
+  return [
+    ...fields.map(field => ({ id: field.id, label: field.label })),
+    ...Object.keys(data).filter(key => !known.has(key)).map(key => ({ id: key, label: key })),
+  ].map(({ id, label }) => ({ key: keyPrefix + id, label: labelPrefix + label, value: data[id] }));
+}
+
+/**
+ * Pairs a submission's answers with the labels of the form's fields, in form
+ * order. Answers to fields no longer in the schema are listed last by key.
+ * Repeatable groups are flattened to one row per answer of every entry,
+ * labelled e.g. "Work experience #2 › Employer".
+ */
+export function labelledAnswers(fields: FormField[], formData: Json): LabelledAnswer[] {
+  const data = isJsonObject(formData) ? formData : {};
+  const groups = new Map(fields.filter(field => field.type === 'group').map(field => [field.id, field]));
+
+  return labelAnswers(fields, data).flatMap(answer => {
+    const group = groups.get(answer.key);
+    if (!group || !Array.isArray(answer.value) || !answer.value.every(isJsonObject)) return [answer];
+    return answer.value.flatMap((item, index) => labelAnswers(
+      group.fields || [],
+      isJsonObject(item) ? item : {},
+      `${answer.key}.${index + 1}.`,
+      `${group.label} #${index + 1} › `
+    ));
+  });
+}
+
+const csvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Builds a CSV with one row per submission and one column per (flattened)
+ * answer, so group entries get their own columns. Each submission is
+ * labelled with the fields of the version it answered; columns are shared
+ * by field id, titled with the label seen first.
+ */
+export function submissionsToCsv<S extends { created_at: string; form_data: Json }>(
+  fieldsFor: (submission: S) => FormField[],
+  submissions: S[]
+): string {
+  const columns = new Map<string, string>();
+  const rows = submissions.map(submission => {
+    const answers = labelledAnswers(fieldsFor(submission), submission.form_data);
+    answers.forEach(({ key, label }) => {
+      if (!columns.has(key)) columns.set(key, label);
+    });
+    return new Map(answers.map(({ key, value }) => [key, value]));
+  });
+
+  const keys = Array.from(columns.keys());
+  const header = ['Submitted at', ...columns.values()];
+  const lines = rows.map((row, index) => [
+    submissions[index].created_at,
+    ...keys.map(key => row.has(key) ? formatFormValue(row.get(key)) : ''),
+  ]);
+  return [header, ...lines].map(line => line.map(csvCell).join(',')).join('\r\n');
+}
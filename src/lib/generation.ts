@@ -0,0 +1,95 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { FormSchema, GenerationStreamEvent, SourceDocument } from "@shared/form-schema";
+
+const FUNCTIONS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
+
+// The signed-in user's AI allowance for today, as reported by generate-form
+export interface AIQuota {
+  limit: number;
+  used: number;
+  remaining: number;
+  // ISO timestamp of the next UTC midnight, when the count starts over
+  resetsAt: string;
+}
+
+export async function fetchAIQuota(): Promise<AIQuota> {
+  const { data, error } = await supabase.functions.invoke<AIQuota>('generate-form', { method: 'GET' });
+  if (error) throw error;
+  if (!data) throw new Error('generate-form returned no quota');
+  return data;
+}
+
+// Encodes a file for generate-form, which extracts its text
+export function readSourceDocument(file: File): Promise<SourceDocument> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      // A data URL: everything after the comma is the base64 content
+      const content = String(reader.result).split(',')[1] ?? '';
+      resolve({ name: file.name, content });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+interface StreamOptions {
+  signal?: AbortSignal;
+  // The form written so far, or null when the model starts over
+  onProgress: (schema: FormSchema | null) => void;
+}
+
+/**
+ * Calls generate-form in streaming mode. supabase.functions.invoke waits for
+ * the whole response, so the event stream is read with fetch instead.
+ * Resolves to what invoke would have returned as data; aborting the signal
+ * rejects with an AbortError and closes the connection, which cancels the
+ * model call on the server.
+ */
+export async function streamGenerateForm(body: Record<string, unknown>, { signal, onProgress }: StreamOptions): Promise<unknown> {
+  const publishableKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${FUNCTIONS_URL}/generate-form`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: publishableKey,
+      Authorization: `Bearer ${session?.access_token ?? publishableKey}`,
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    const failure = await response.json().catch(() => null);
+    throw new Error(failure?.error || `generate-form returned ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event: GenerationStreamEvent = JSON.parse(line);
+      switch (event.type) {
+        case 'progress':
+          onProgress(event.schema);
+          break;
+        case 'retry':
+          onProgress(null);
+          break;
+        case 'result':
+          return event.result;
+        case 'error':
+          throw new Error(event.error);
+      }
+    }
+  }
+  throw new Error('generate-form ended without a result');
+}
@@ -0,0 +1,72 @@
+import { supabase } from "@/integrations/supabase/client";
+import { FORM_UPLOADS_BUCKET, type FileRef } from "@shared/form-schema";
+
+/**
+ * Uploads a respondent's attachment. Files live under the form's id so the
+ * storage policies can check the form is open and let its owner read them.
+ */
+export async function uploadFormFile(formId: string, file: File): Promise<FileRef> {
+  const path = `${formId}/${crypto.randomUUID()}/${file.name}`;
+  const { error } = await supabase.storage
+    .from(FORM_UPLOADS_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined });
+
+  if (error) throw error;
+
+  return { path, name: file.name, size: file.size, type: file.type };
+}
+
+export async function getFileDownloadUrl(file: FileRef): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(FORM_UPLOADS_BUCKET)
+    .createSignedUrl(file.path, 60, { download: file.name });
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+export async function removeFormFiles(files: FileRef[]) {
+  if (files.length === 0) return;
+  const { error } = await supabase.storage
+    .from(FORM_UPLOADS_BUCKET)
+    .remove(files.map(file => file.path));
+
+  if (error) throw error;
+}
+
+const LIST_PAGE_SIZE = 1000;
+
+// Paths of every file under a folder of the uploads bucket
+async function listFolder(prefix: string): Promise<string[]> {
+  const paths: string[] = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(FORM_UPLOADS_BUCKET)
+      .list(prefix, { limit: LIST_PAGE_SIZE, offset });
+
+    if (error) throw error;
+
+    for (const entry of data) {
+      // Folders are listed without an id
+      if (entry.id) paths.push(`${prefix}/${entry.name}`);
+      else paths.push(...await listFolder(`${prefix}/${entry.name}`));
+    }
+    if (data.length < LIST_PAGE_SIZE) return paths;
+  }
+}
+
+/**
+ * Removes every attachment uploaded to a form, including ones never
+ * submitted. Must run before the form is deleted, as the storage policies
+ * look the owner up through it.
+ */
+export async function removeAllFormFiles(formId: string) {
+  const paths = await listFolder(formId);
+  for (let start = 0; start < paths.length; start += LIST_PAGE_SIZE) {
+    const { error } = await supabase.storage
+      .from(FORM_UPLOADS_BUCKET)
+      .remove(paths.slice(start, start + LIST_PAGE_SIZE));
+
+    if (error) throw error;
+  }
+}
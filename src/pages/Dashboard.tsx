@@ -4,7 +4,17 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { Brain, Plus, LogOut, Eye, Link as LinkIcon, ToggleLeft, ToggleRight, Trash2 } from "lucide-react";
+import { Brain, Plus, LogOut, Eye, Link as LinkIcon, ToggleLeft, ToggleRight, Trash2, Download, Pencil, History, Globe, EyeOff, Copy, Archive, ArchiveRestore, Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   Dialog,
   DialogContent,
@@ -21,19 +31,61 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  FORM_STATUS_LABELS,
+  deleteForm,
+  duplicateForm,
+  fetchFormVersions,
+  formatFormValue,
+  hasUnpublishedChanges,
+  labelledAnswers,
+  publishForm,
+  setFormStatus,
+  submissionsToCsv,
+  toFormStatus,
+  unarchivedStatus,
+  upgradeStoredSchemas,
+  type FormStatus,
+  type FormVersion,
+} from "@/lib/forms";
+import { getFileDownloadUrl, removeFormFiles } from "@/lib/uploads";
+import type { Json } from "@/integrations/supabase/types";
+import { collectFileRefs, isFileRefList, safeParseFormSchema, type FileRef, type FormField } from "@shared/form-schema";
+import FormVersionHistory from "@/components/FormVersionHistory";
 
 interface Form {
   id: string;
   title: string;
   description: string | null;
   created_at: string;
-  accepting_responses: boolean;
+  status: string;
+  // The draft being edited
+  schema: Json;
+  // What respondents see; null until first published
+  published_schema: Json | null;
+  published_version_id: string | null;
+}
+
+const STATUS_MESSAGES: Partial<Record<FormStatus, string>> = {
+  draft: "Form unpublished. Its link no longer works.",
+  closed: "Form closed. It no longer accepts responses.",
+  published: "Form reopened for responses.",
+  archived: "Form archived. Its link no longer works.",
+};
+
+// Actions that need confirming first
+interface PendingAction {
+  kind: "archive" | "delete";
+  form: Form;
 }
 
 interface Submission {
   id: string;
   form_data: any;
   created_at: string;
+  // The form version answered; null for submissions made before versions were kept
+  version_id: string | null;
 }
 
 const Dashboard = () => {
@@ -42,6 +94,12 @@ const Dashboard = () => {
   const [forms, setForms] = useState<Form[]>([]);
   const [selectedForm, setSelectedForm] = useState<Form | null>(null);
   const [submissions, setSubmissions] = useState<Submission[]>([]);
+  // Versions of the selected form, to read each submission against its own questions
+  const [versions, setVersions] = useState<FormVersion[]>([]);
+  const [historyForm, setHistoryForm] = useState<Form | null>(null);
+  const [view, setView] = useState<"active" | "archived">("active");
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
   const [loading, setLoading] = useState(true);
   const [user, setUser] = useState<any>(null);
 
@@ -84,6 +142,7 @@ const Dashboard = () => {
 
       if (error) throw error;
       setForms(data || []);
+      upgradeStoredSchemas(data || []);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -97,14 +156,18 @@ const Dashboard = () => {
 
   const fetchSubmissions = async (formId: string) => {
     try {
-      const { data, error } = await supabase
-        .from("form_submissions")
-        .select("*")
-        .eq("form_id", formId)
-        .order("created_at", { ascending: false });
+      const [{ data, error }, formVersions] = await Promise.all([
+        supabase
+          .from("form_submissions")
+          .select("*")
+          .eq("form_id", formId)
+          .order("created_at", { ascending: false }),
+        fetchFormVersions(formId),
+      ]);
 
       if (error) throw error;
       setSubmissions(data || []);
+      setVersions(formVersions);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -114,39 +177,121 @@ const Dashboard = () => {
     }
   };
 
-  const toggleFormStatus = async (formId: string, currentStatus: boolean) => {
+  const publish = async (form: Form) => {
     try {
-      const { error } = await supabase
-        .from("forms")
-        .update({ accepting_responses: !currentStatus })
-        .eq("id", formId);
+      await publishForm(form.id);
 
-      if (error) throw error;
+      toast({
+        title: "Form published",
+        description: "The latest draft is now live at the form's link.",
+      });
+
+      fetchForms();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Couldn't publish the form.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const changeStatus = async (formId: string, status: FormStatus, description = STATUS_MESSAGES[status]) => {
+    try {
+      await setFormStatus(formId, status);
 
       toast({
         title: "Success",
-        description: `Form is now ${!currentStatus ? "accepting" : "not accepting"} responses.`,
+        description,
       });
 
       fetchForms();
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error",
-        description: error.message,
+        description: error instanceof Error ? error.message : "Couldn't change the form's status.",
         variant: "destructive",
       });
     }
   };
 
-  const deleteSubmission = async (submissionId: string) => {
+  const unarchive = (form: Form) => {
+    const status = unarchivedStatus(form);
+    changeStatus(
+      form.id,
+      status,
+      `Form moved back to your forms as ${status === "draft" ? "a draft" : "closed"}.`
+    );
+  };
+
+  const duplicate = async (form: Form) => {
+    if (!user) return;
+    try {
+      await duplicateForm(form, user.id);
+
+      toast({
+        title: "Form duplicated",
+        description: "The copy was saved as a draft.",
+      });
+
+      setView("active");
+      fetchForms();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Couldn't duplicate the form.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmPendingAction = async () => {
+    if (!pendingAction) return;
+    const { kind, form } = pendingAction;
+
+    setIsConfirming(true);
+    try {
+      if (kind === "delete") {
+        await deleteForm(form.id);
+        toast({
+          title: "Form deleted",
+          description: `"${form.title}" was deleted with its submissions and files.`,
+        });
+      } else {
+        await setFormStatus(form.id, "archived");
+        toast({
+          title: "Success",
+          description: STATUS_MESSAGES.archived,
+        });
+      }
+      setPendingAction(null);
+      fetchForms();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Couldn't ${kind} the form.`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  const deleteSubmission = async (submission: Submission) => {
     try {
       const { error } = await supabase
         .from("form_submissions")
         .delete()
-        .eq("id", submissionId);
+        .eq("id", submission.id);
 
       if (error) throw error;
 
+      try {
+        await removeFormFiles(collectFileRefs(submission.form_data));
+      } catch (fileError) {
+        console.error("Error removing submission files:", fileError);
+      }
+
       toast({
         title: "Success",
         description: "Submission deleted successfully.",
@@ -164,6 +309,41 @@ const Dashboard = () => {
     }
   };
 
+  const downloadFile = async (file: FileRef) => {
+    try {
+      const url = await getFileDownloadUrl(file);
+      window.open(url, "_blank", "noopener");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Couldn't download file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderAnswer = (value: unknown) => {
+    if (!isFileRefList(value)) {
+      return formatFormValue(value);
+    }
+    return (
+      <div className="flex flex-col items-start gap-1">
+        {value.map((file) => (
+          <Button
+            key={file.path}
+            variant="link"
+            size="sm"
+            onClick={() => downloadFile(file)}
+            className="h-auto p-0 gap-1"
+          >
+            <Download className="w-3 h-3" />
+            {file.name}
+          </Button>
+        ))}
+      </div>
+    );
+  };
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
     navigate("/auth");
@@ -183,6 +363,33 @@ const Dashboard = () => {
     fetchSubmissions(form.id);
   };
 
+  const selectedFields = selectedForm
+    ? safeParseFormSchema(selectedForm.published_schema ?? selectedForm.schema).data?.fields ?? []
+    : [];
+
+  const versionOf = (submission: Submission) =>
+    versions.find(version => version.id === submission.version_id);
+
+  // The questions the submission answered, or the current ones for unpinned submissions
+  const fieldsOf = (submission: Submission): FormField[] =>
+    versionOf(submission)?.schema?.fields ?? selectedFields;
+
+  const exportSubmissions = () => {
+    if (!selectedForm) return;
+    const csv = submissionsToCsv(fieldsOf, submissions);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${selectedForm.title || 'submissions'}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const archivedCount = forms.filter(form => toFormStatus(form.status) === "archived").length;
+  const visibleForms = forms.filter(form =>
+    (toFormStatus(form.status) === "archived") === (view === "archived")
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -218,6 +425,15 @@ const Dashboard = () => {
           <p className="text-muted-foreground">Manage your forms and view submissions</p>
         </div>
 
+        {forms.length > 0 && (
+          <Tabs value={view} onValueChange={(value) => setView(value === "archived" ? "archived" : "active")} className="mb-6">
+            <TabsList>
+              <TabsTrigger value="active">Forms</TabsTrigger>
+              <TabsTrigger value="archived">Archived ({archivedCount})</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+
         {forms.length === 0 ? (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-12">
@@ -230,69 +446,205 @@ const Dashboard = () => {
               </Button>
             </CardContent>
           </Card>
+        ) : visibleForms.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              {view === "archived" ? "No archived forms" : "All your forms are archived"}
+            </CardContent>
+          </Card>
         ) : (
           <div className="grid gap-4">
-            {forms.map((form) => (
-              <Card key={form.id}>
-                <CardHeader>
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <CardTitle>{form.title}</CardTitle>
-                      {form.description && (
-                        <CardDescription className="mt-2">{form.description}</CardDescription>
-                      )}
+            {visibleForms.map((form) => {
+              const status = toFormStatus(form.status);
+              const isLive = status === "published" || status === "closed";
+              const hasChanges = isLive && hasUnpublishedChanges(form.schema, form.published_schema);
+              return (
+                <Card key={form.id}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <CardTitle>{form.title}</CardTitle>
+                        {form.description && (
+                          <CardDescription className="mt-2">{form.description}</CardDescription>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap justify-end gap-2">
+                        {hasChanges && (
+                          <Badge variant="outline">Unpublished changes</Badge>
+                        )}
+                        <Badge variant={status === "published" ? "default" : "secondary"}>
+                          {FORM_STATUS_LABELS[status]}
+                        </Badge>
+                      </div>
                     </div>
-                    <Badge variant={form.accepting_responses ? "default" : "secondary"}>
-                      {form.accepting_responses ? "Active" : "Closed"}
-                    </Badge>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex flex-wrap gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => viewSubmissions(form)}
-                      className="gap-2"
-                    >
-                      <Eye className="w-4 h-4" />
-                      View Submissions
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => copyFormLink(form.id)}
-                      className="gap-2"
-                    >
-                      <LinkIcon className="w-4 h-4" />
-                      Copy Link
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => toggleFormStatus(form.id, form.accepting_responses)}
-                      className="gap-2"
-                    >
-                      {form.accepting_responses ? (
-                        <>
-                          <ToggleLeft className="w-4 h-4" />
-                          Close Form
-                        </>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex flex-wrap gap-2">
+                      {(status === "draft" || hasChanges) && (
+                        <Button
+                          size="sm"
+                          onClick={() => publish(form)}
+                          className="gap-2"
+                        >
+                          <Globe className="w-4 h-4" />
+                          {hasChanges ? "Publish Changes" : "Publish"}
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => viewSubmissions(form)}
+                        className="gap-2"
+                      >
+                        <Eye className="w-4 h-4" />
+                        View Submissions
+                      </Button>
+                      {status !== "archived" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => navigate(`/edit/${form.id}`)}
+                          className="gap-2"
+                        >
+                          <Pencil className="w-4 h-4" />
+                          Edit Form
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setHistoryForm(form)}
+                        className="gap-2"
+                      >
+                        <History className="w-4 h-4" />
+                        History
+                      </Button>
+                      {isLive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => copyFormLink(form.id)}
+                          className="gap-2"
+                        >
+                          <LinkIcon className="w-4 h-4" />
+                          Copy Link
+                        </Button>
+                      )}
+                      {isLive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => changeStatus(form.id, status === "published" ? "closed" : "published")}
+                          className="gap-2"
+                        >
+                          {status === "published" ? (
+                            <>
+                              <ToggleLeft className="w-4 h-4" />
+                              Close Form
+                            </>
+                          ) : (
+                            <>
+                              <ToggleRight className="w-4 h-4" />
+                              Reopen Form
+                            </>
+                          )}
+                        </Button>
+                      )}
+                      {isLive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => changeStatus(form.id, "draft")}
+                          className="gap-2"
+                        >
+                          <EyeOff className="w-4 h-4" />
+                          Unpublish
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => duplicate(form)}
+                        className="gap-2"
+                      >
+                        <Copy className="w-4 h-4" />
+                        Duplicate
+                      </Button>
+                      {status === "archived" ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => unarchive(form)}
+                          className="gap-2"
+                        >
+                          <ArchiveRestore className="w-4 h-4" />
+                          Unarchive
+                        </Button>
                       ) : (
-                        <>
-                          <ToggleRight className="w-4 h-4" />
-                          Open Form
-                        </>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setPendingAction({ kind: "archive", form })}
+                          className="gap-2"
+                        >
+                          <Archive className="w-4 h-4" />
+                          Archive
+                        </Button>
                       )}
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPendingAction({ kind: "delete", form })}
+                        className="gap-2 text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Delete
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         )}
       </main>
 
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && !isConfirming && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.kind === "delete" ? "Delete" : "Archive"} "{pendingAction?.form.title}"?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.kind === "delete"
+                ? "The form, all of its submissions, uploaded files and version history will be permanently deleted. This can't be undone."
+                : "The form's link will stop working and it will move to the Archived tab. Its submissions are kept, and you can unarchive it later."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isConfirming}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Stay open until it's done, so failures can be seen and retried
+                e.preventDefault();
+                confirmPendingAction();
+              }}
+              disabled={isConfirming}
+              className={pendingAction?.kind === "delete" ? "bg-destructive text-destructive-foreground hover:bg-destructive/90 gap-2" : "gap-2"}
+            >
+              {isConfirming && <Loader2 className="w-4 h-4 animate-spin" />}
+              {pendingAction?.kind === "delete" ? "Delete Form" : "Archive Form"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <FormVersionHistory
+        form={historyForm}
+        onClose={() => setHistoryForm(null)}
+        onRestored={fetchForms}
+      />
+
       <Dialog open={!!selectedForm} onOpenChange={() => setSelectedForm(null)}>
         <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
           <DialogHeader>
@@ -302,6 +654,15 @@ const Dashboard = () => {
             </DialogDescription>
           </DialogHeader>
 
+          {submissions.length > 0 && (
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" onClick={exportSubmissions} className="gap-2">
+                <Download className="w-4 h-4" />
+                Export CSV
+              </Button>
+            </div>
+          )}
+
           {submissions.length === 0 ? (
             <div className="py-8 text-center text-muted-foreground">
               No submissions yet
@@ -320,19 +681,27 @@ const Dashboard = () => {
                   <TableRow key={submission.id}>
                     <TableCell>
                       {new Date(submission.created_at).toLocaleString()}
+                      {versionOf(submission) && (
+                        <div className="text-xs text-muted-foreground">
+                          Version {versionOf(submission)?.version}
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell>
-                      <div className="max-w-md">
-                        <pre className="text-xs overflow-x-auto bg-muted p-2 rounded">
-                          {JSON.stringify(submission.form_data, null, 2)}
-                        </pre>
-                      </div>
+                      <dl className="max-w-md text-sm space-y-1">
+                        {labelledAnswers(fieldsOf(submission), submission.form_data).map(({ key, label, value }) => (
+                          <div key={key} className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-2">
+                            <dt className="text-muted-foreground truncate" title={label}>{label}</dt>
+                            <dd className="break-words">{renderAnswer(value)}</dd>
+                          </div>
+                        ))}
+                      </dl>
                     </TableCell>
                     <TableCell>
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => deleteSubmission(submission.id)}
+                        onClick={() => deleteSubmission(submission)}
                         className="gap-2"
                       >
                         <Trash2 className="w-4 h-4" />
@@ -0,0 +1,10 @@
+import { useParams } from "react-router-dom";
+import FormBuilder from "@/components/FormBuilder";
+
+const EditForm = () => {
+  const { id } = useParams();
+  // Keyed so switching between forms starts the builder afresh
+  return <FormBuilder key={id} editFormId={id} />;
+};
+
+export default EditForm;
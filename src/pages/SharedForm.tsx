@@ -1,32 +1,16 @@
 import { useEffect, useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { Loader2, ArrowLeft } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import DynamicForm from "@/components/DynamicForm";
-
-interface FormSchema {
-  type: 'form';
-  title: string;
-  description?: string;
-  fields: Array<{
-    id: string;
-    label: string;
-    type: 'text' | 'email' | 'tel' | 'number' | 'select' | 'textarea';
-    placeholder?: string;
-    required: boolean;
-    validation?: {
-      pattern?: string;
-      message?: string;
-    };
-    options?: string[];
-  }>;
-}
+import { safeParseFormSchema, type FormSchema } from "@shared/form-schema";
 
 export default function SharedForm() {
   const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const [formSchema, setFormSchema] = useState<FormSchema | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -40,10 +24,9 @@ export default function SharedForm() {
       }
 
       try {
+        // Only the published version; the draft isn't readable by respondents
         const { data, error } = await supabase
-          .from('forms')
-          .select('*')
-          .eq('id', id)
+          .rpc('get_published_form', { target_form_id: id })
           .maybeSingle();
 
         if (error) {
@@ -52,16 +35,27 @@ export default function SharedForm() {
           return;
         }
 
-        if (!data) {
+        // Drafts aren't shared yet, and archived forms no longer are
+        if (!data || !data.published_schema || (data.status !== 'published' && data.status !== 'closed')) {
           toast.error("Form not found");
           return;
         }
 
-        if (!data.accepting_responses) {
+        if (data.status === 'closed') {
           toast.error("This form is no longer accepting responses");
         }
 
-        setFormSchema(data.schema as unknown as FormSchema);
+        const parsed = safeParseFormSchema(data.published_schema);
+        if (!parsed.success) {
+          console.error('Invalid form schema:', parsed.error.message, parsed.error.issues);
+          toast.error("This form is damaged and can't be displayed");
+          return;
+        }
+        if (parsed.repairs.length > 0) {
+          console.warn('Repaired form schema:', parsed.repairs);
+        }
+
+        setFormSchema(parsed.data);
       } catch (error) {
         console.error('Error:', error);
         toast.error("An error occurred while loading the form");
@@ -120,7 +114,12 @@ export default function SharedForm() {
           </Button>
 
           <Card className="p-6 shadow-strong">
-            <DynamicForm schema={formSchema} onReset={handleReset} formId={id} />
+            <DynamicForm
+              schema={formSchema}
+              onReset={handleReset}
+              formId={id}
+              params={Object.fromEntries(searchParams)}
+            />
           </Card>
         </div>
       </div>
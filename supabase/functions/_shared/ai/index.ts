@@ -0,0 +1,58 @@
+import { createMockProvider } from "./mock.ts";
+import { createOpenAICompatibleProvider } from "./openai-compatible.ts";
+import type { AIProvider } from "./types.ts";
+
+export * from "./types.ts";
+
+// Providers selectable with the AI_PROVIDER variable
+export const AI_PROVIDERS = ['gateway', 'openai', 'local', 'mock'] as const;
+
+const requireEnv = (name: string): string => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+};
+
+/**
+ * Picks the model provider from the environment:
+ * - `gateway` (default): the Lovable AI gateway, keyed by LOVABLE_API_KEY
+ * - `openai`: an OpenAI-compatible API at OPENAI_BASE_URL, keyed by OPENAI_API_KEY
+ * - `local`: a local model server at LOCAL_AI_BASE_URL (Ollama by default)
+ * - `mock`: canned responses, see createMockProvider
+ * AI_MODEL overrides the model of the first three.
+ */
+export function getAIProvider(): AIProvider {
+  const provider = Deno.env.get('AI_PROVIDER') || 'gateway';
+  const model = Deno.env.get('AI_MODEL');
+
+  switch (provider) {
+    case 'gateway':
+      return createOpenAICompatibleProvider({
+        name: provider,
+        baseUrl: 'https://ai.gateway.lovable.dev/v1',
+        apiKey: requireEnv('LOVABLE_API_KEY'),
+        model: model || 'google/gemini-2.5-flash',
+      });
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        name: provider,
+        baseUrl: Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1',
+        apiKey: requireEnv('OPENAI_API_KEY'),
+        model: model || 'gpt-4o-mini',
+      });
+    case 'local':
+      return createOpenAICompatibleProvider({
+        name: provider,
+        // The functions run in Docker, so the host's localhost isn't reachable directly
+        baseUrl: Deno.env.get('LOCAL_AI_BASE_URL') || 'http://host.docker.internal:11434/v1',
+        apiKey: Deno.env.get('LOCAL_AI_API_KEY'),
+        model: model || 'llama3.1',
+      });
+    case 'mock':
+      return createMockProvider(Deno.env.get('AI_MOCK_RESPONSE'));
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${provider}"; expected one of ${AI_PROVIDERS.join(', ')}`);
+  }
+}
@@ -0,0 +1,95 @@
+import type { AIProvider, ChatMessage, ToolCallRequest } from "./types.ts";
+
+const CONTACT_FORM = {
+  type: 'form',
+  title: 'Contact Form',
+  description: 'Get in touch with us',
+  fields: [
+    { id: 'name', label: 'Name', type: 'text', placeholder: 'Your name', required: true },
+    { id: 'email', label: 'Email', type: 'email', placeholder: 'you@example.com', required: true },
+    {
+      id: 'topic',
+      label: 'Topic',
+      type: 'select',
+      required: false,
+      options: ['General question', 'Support', 'Feedback'],
+    },
+    { id: 'message', label: 'Message', type: 'textarea', placeholder: 'How can we help?', required: true },
+  ],
+};
+
+const ANONYMITY_CLARIFICATION = {
+  type: 'clarification',
+  contradiction: 'The form is described as anonymous but asks for contact details.',
+  questions: [
+    { question: 'Should respondents stay anonymous?', choices: ['Yes, drop the contact fields', 'No, keep the contact fields'] },
+  ],
+};
+
+// Streamed output arrives in pieces of this many characters, this often
+const STREAM_CHUNK_LENGTH = 40;
+const STREAM_DELAY_MS = 30;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+// The field a single-field request is about, found in the form it was sent with
+function findRequestedField(messages: ChatMessage[]): Record<string, unknown> | undefined {
+  const content = messages.find(message => message.role === 'user')?.content ?? '';
+  const form = content.match(/^Here is the current form:\n(.*)$/m)?.[1];
+  const id = content.match(/field with id "([^"]+)"/)?.[1];
+  if (!form || !id) return undefined;
+  try {
+    const fields: unknown = JSON.parse(form).fields;
+    return Array.isArray(fields) ? fields.find(field => field?.id === id) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Answers without calling any model, so the app and the functions can run
+ * offline. Returns `response` when given (the AI_MOCK_RESPONSE variable),
+ * otherwise a contact form, or a clarification request when the first
+ * message of a conversation mentions an anonymous form. Requests to change
+ * a single field get the field back unchanged.
+ */
+export function createMockProvider(response?: string): AIProvider {
+  const answer = (messages: ChatMessage[], tool: ToolCallRequest['tool']): Record<string, unknown> => {
+    if (response) {
+      return JSON.parse(response);
+    }
+    if (tool.name === 'update_form_field') {
+      return findRequestedField(messages) ?? {};
+    }
+    const userMessages = messages.filter(message => message.role === 'user');
+    if (userMessages.length === 1 && /\banonymous\b/i.test(userMessages[0].content)) {
+      return structuredClone(ANONYMITY_CLARIFICATION);
+    }
+    return structuredClone(CONTACT_FORM);
+  };
+
+  return {
+    name: 'mock',
+    callTool({ messages, tool }: ToolCallRequest) {
+      return Promise.resolve({ arguments: answer(messages, tool) });
+    },
+    // Writes the same answer out a little at a time, like a real model
+    async streamTool({ messages, tool, signal }: ToolCallRequest, onText: (text: string) => void) {
+      const result = answer(messages, tool);
+      const text = JSON.stringify(result, null, 2);
+      for (let end = STREAM_CHUNK_LENGTH; end < text.length + STREAM_CHUNK_LENGTH; end += STREAM_CHUNK_LENGTH) {
+        await wait(STREAM_DELAY_MS, signal);
+        onText(text.slice(0, end));
+      }
+      return { arguments: result };
+    },
+  };
+}
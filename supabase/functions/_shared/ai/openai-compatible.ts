@@ -0,0 +1,158 @@
+import {
+  AIOutputError,
+  AIProviderError,
+  type AIProvider,
+  type ChatMessage,
+  type TokenUsage,
+  type ToolCallRequest,
+  type ToolCallResult,
+} from "./types.ts";
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  // Base URL of the API, e.g. https://api.openai.com/v1
+  baseUrl: string;
+  // Omitted for local servers that don't check keys
+  apiKey?: string;
+  model: string;
+}
+
+// Strips a ```json fence some models wrap their answer in
+const unfence = (content: string) =>
+  content.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+
+/**
+ * The tool arguments, or the message text from local models without tool
+ * support, which usually answer with the JSON as text instead. Output that
+ * isn't a JSON object (often because it was cut off) throws AIOutputError.
+ */
+function toResult(toolArguments: unknown, content: unknown, usage?: TokenUsage): ToolCallResult {
+  const isToolCall = typeof toolArguments === 'string' && toolArguments.trim() !== '';
+  const output = isToolCall ? toolArguments : typeof content === 'string' ? unfence(content) : '';
+  if (!output.trim()) {
+    throw new AIOutputError('The response did not call the tool', output, usage);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'invalid JSON';
+    throw new AIOutputError(
+      isToolCall ? `The tool arguments are not valid JSON (${reason})` : 'The response did not call the tool',
+      output,
+      usage
+    );
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new AIOutputError('The tool arguments are not a JSON object', output, usage);
+  }
+  return { arguments: parsed as Record<string, unknown>, usage };
+}
+
+// The `usage` object of a completion (the last chunk, when streaming)
+function readUsage(usage: unknown): TokenUsage | undefined {
+  if (typeof usage !== 'object' || usage === null) return undefined;
+  const { prompt_tokens, completion_tokens } = usage as Record<string, unknown>;
+  if (typeof prompt_tokens !== 'number' || typeof completion_tokens !== 'number') return undefined;
+  return { promptTokens: prompt_tokens, completionTokens: completion_tokens };
+}
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API with
+ * tool calling: the Lovable AI gateway, OpenAI itself, or a local model
+ * server such as Ollama, LM Studio or vLLM.
+ */
+export function createOpenAICompatibleProvider({ name, baseUrl, apiKey, model }: OpenAICompatibleOptions): AIProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (messages: ChatMessage[], tool: ToolCallRequest['tool'], stream: boolean, signal?: AbortSignal) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        tools: [{ type: 'function', function: tool }],
+        tool_choice: { type: 'function', function: { name: tool.name } },
+        stream,
+        // Streamed completions only report usage when asked to
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('AI API error:', name, response.status, errorText);
+      throw new AIProviderError(`${name} returned ${response.status}: ${errorText}`, response.status);
+    }
+    return response;
+  };
+
+  return {
+    name,
+    async callTool({ messages, tool, signal }: ToolCallRequest) {
+      const response = await post(messages, tool, false, signal);
+      const data = await response.json();
+      console.log('AI response:', JSON.stringify(data));
+
+      const message = data.choices?.[0]?.message;
+      return toResult(message?.tool_calls?.[0]?.function?.arguments, message?.content, readUsage(data.usage));
+    },
+
+    // Reads the server-sent events of a streamed completion
+    async streamTool({ messages, tool, signal }: ToolCallRequest, onText: (text: string) => void) {
+      const response = await post(messages, tool, true, signal);
+      if (!response.body) {
+        throw new AIProviderError('Empty response from AI');
+      }
+
+      let toolArguments = '';
+      let content = '';
+      let buffer = '';
+      let usage: TokenUsage | undefined;
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.startsWith('data:') ? line.slice('data:'.length).trim() : '';
+          if (!data || data === '[DONE]') continue;
+          let chunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            chunk = null;
+          }
+          if (typeof chunk !== 'object' || chunk === null) {
+            // A garbled event loses part of the answer, so the attempt is retried
+            await reader.cancel();
+            throw new AIOutputError('The response stream was cut off or garbled', toolArguments || content, usage);
+          }
+          usage = readUsage(chunk.usage) ?? usage;
+          const delta = chunk.choices?.[0]?.delta;
+          const argumentsDelta = delta?.tool_calls?.[0]?.function?.arguments;
+          if (typeof argumentsDelta === 'string') {
+            toolArguments += argumentsDelta;
+          } else if (typeof delta?.content === 'string') {
+            content += delta.content;
+          } else {
+            continue;
+          }
+          onText(toolArguments || unfence(content));
+        }
+      }
+
+      console.log('AI response:', toolArguments || content);
+      return toResult(toolArguments, content, usage);
+    },
+  };
+}
@@ -0,0 +1,70 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// A function the model must call; its arguments are the structured output
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema of the arguments
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCallRequest {
+  messages: ChatMessage[];
+  tool: ToolDefinition;
+  // Aborts the request to the model, e.g. when the user cancels
+  signal?: AbortSignal;
+}
+
+// Tokens billed for one call, as reported by the provider
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ToolCallResult {
+  // The (unvalidated) arguments the model called the tool with
+  arguments: Record<string, unknown>;
+  // Missing when the provider doesn't report it
+  usage?: TokenUsage;
+}
+
+export interface AIProvider {
+  name: string;
+  callTool(request: ToolCallRequest): Promise<ToolCallResult>;
+  // Like callTool, passing the arguments text written so far to onText as
+  // the model streams it
+  streamTool(request: ToolCallRequest, onText: (text: string) => void): Promise<ToolCallResult>;
+}
+
+export class AIProviderError extends Error {
+  // HTTP status returned by the provider, when it returned one
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = status;
+  }
+}
+
+/**
+ * The model answered, but not with a JSON object of tool arguments, e.g.
+ * because the output was cut off. Worth retrying with the problem explained,
+ * unlike other provider errors.
+ */
+export class AIOutputError extends AIProviderError {
+  // What the model wrote, to show it what was wrong
+  output: string;
+  // Tokens billed for the answer anyway
+  usage?: TokenUsage;
+
+  constructor(message: string, output: string, usage?: TokenUsage) {
+    super(message);
+    this.name = 'AIOutputError';
+    this.output = output;
+    this.usage = usage;
+  }
+}
@@ -0,0 +1,119 @@
+import { safeParseGenerationResult, type SafeParseResult } from "./repair.ts";
+import type { GenerationResult } from "./schema.ts";
+
+export interface AIOutputOptions {
+  // Ids of the form being refined; these are kept as they are even when not
+  // snake_case, since submissions are stored under them
+  existingIds?: Iterable<string>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// `firstName`, `First Name` and `first-name` all become `first_name`
+export const toSnakeCase = (value: string): string =>
+  value
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+function renameCondition(condition: unknown, renames: Map<string, string>): unknown {
+  if (!isRecord(condition)) return condition;
+  const renamed = { ...condition };
+  if (typeof renamed.field === 'string') {
+    renamed.field = renames.get(renamed.field) ?? renamed.field;
+  }
+  for (const key of ['all', 'any']) {
+    if (Array.isArray(renamed[key])) {
+      renamed[key] = (renamed[key] as unknown[]).map(child => renameCondition(child, renames));
+    }
+  }
+  return renamed;
+}
+
+// Renames field references in an expression, leaving function names and numbers alone
+const renameExpression = (expression: string, renames: Map<string, string>): string =>
+  expression.replace(/(?<![\w.])[A-Za-z_]\w*(?!\s*\()/g, name => renames.get(name) ?? name);
+
+/**
+ * Gives every field in one list (the form, or a group's sub-fields) a
+ * unique snake_case id, and updates the conditions, branches and
+ * expressions that refer to the old ids.
+ */
+function normaliseFieldIds(fields: unknown[], keep: Set<string>, repairs: string[]): unknown[] {
+  const canonical = (original: string) => keep.has(original) ? original : toSnakeCase(original);
+  const originals = fields.map(field => {
+    if (!isRecord(field)) return undefined;
+    return typeof field.id === 'string' ? field.id : typeof field.name === 'string' ? field.name : undefined;
+  });
+  // Ids that are already fine keep their name; the others are fitted around them
+  const reserved = new Set(originals.filter((original): original is string =>
+    original !== undefined && canonical(original) === original));
+
+  const renames = new Map<string, string>();
+  const used = new Set<string>();
+  const ids = originals.map((original, index) => {
+    if (original === undefined) return undefined;
+
+    let base = canonical(original) || `field_${index + 1}`;
+    if (/^\d/.test(base)) base = `field_${base}`;
+    const isTaken = (candidate: string) =>
+      used.has(candidate) || (candidate !== original && reserved.has(candidate));
+    let id = base;
+    for (let n = 2; isTaken(id); n++) {
+      id = `${base}_${n}`;
+    }
+    used.add(id);
+    if (id !== original) {
+      repairs.push(`Renamed field id "${original}" to "${id}"`);
+    }
+    // References to an id shared by several fields mean the first of them
+    if (!renames.has(original)) renames.set(original, id);
+    return id;
+  });
+
+  return fields.map((field, index) => {
+    if (!isRecord(field)) return field;
+    const normalised: Record<string, unknown> = { ...field };
+    if (ids[index] !== undefined) normalised.id = ids[index];
+    if (normalised.visibleIf !== undefined) {
+      normalised.visibleIf = renameCondition(normalised.visibleIf, renames);
+    }
+    if (Array.isArray(normalised.branches)) {
+      normalised.branches = normalised.branches.map(branch => isRecord(branch)
+        ? {
+          ...branch,
+          when: renameCondition(branch.when, renames),
+          goTo: typeof branch.goTo === 'string' ? renames.get(branch.goTo) ?? branch.goTo : branch.goTo,
+        }
+        : branch);
+    }
+    if (typeof normalised.expression === 'string') {
+      normalised.expression = renameExpression(normalised.expression, renames);
+    }
+    // Sub-fields are a scope of their own
+    if (Array.isArray(normalised.fields)) {
+      normalised.fields = normaliseFieldIds(normalised.fields, keep, repairs);
+    }
+    return normalised;
+  });
+}
+
+/**
+ * Validates the generate-form tool output. On top of the repairs every
+ * schema gets, field ids are normalised to unique snake_case, since models
+ * tend to mix styles (`firstName`, `Email Address`) which then leak into
+ * stored submissions and exports.
+ */
+export function safeParseAIOutput(input: unknown, options: AIOutputOptions = {}): SafeParseResult<GenerationResult> {
+  if (!isRecord(input) || input.type === 'clarification' || !Array.isArray(input.fields)) {
+    return safeParseGenerationResult(input);
+  }
+
+  const repairs: string[] = [];
+  const fields = normaliseFieldIds(input.fields, new Set(options.existingIds), repairs);
+  const result = safeParseGenerationResult({ ...input, fields });
+  return result.success ? { ...result, repairs: [...repairs, ...result.repairs] } : result;
+}
@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { clarificationQuestionSchema } from "./schema.ts";
+
+// Rounds of questions the AI may ask before it has to generate the form
+// with its own assumptions
+export const MAX_CLARIFICATION_ROUNDS = 3;
+
+// One round of clarification: what the AI asked and the user's answers, in order
+export const clarificationTurnSchema = z.object({
+  contradiction: z.string().default(''),
+  questions: z.array(clarificationQuestionSchema).min(1),
+  answers: z.array(z.string().trim().min(1)),
+}).refine(turn => turn.answers.length === turn.questions.length, {
+  message: 'Every question needs exactly one answer',
+  path: ['answers'],
+});
+
+export const clarificationHistorySchema = z.array(clarificationTurnSchema).max(MAX_CLARIFICATION_ROUNDS);
+
+export type ClarificationTurn = z.infer<typeof clarificationTurnSchema>;
+
+/**
+ * Writes a round's answers as the user's reply to the AI, keeping each
+ * answer next to its question.
+ */
+export function formatClarificationAnswers(turn: ClarificationTurn): string {
+  return turn.questions
+    .map((question, index) => `Q: ${question.question}\nA: ${turn.answers[index]}`)
+    .join('\n\n');
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeAnswers,
+  evaluateExpression,
+  expressionFieldIds,
+  isValidExpression,
+  parseExpression,
+} from "./computed.ts";
+import { FormSchemaError } from "./errors.ts";
+
+describe('parseExpression', () => {
+  it('follows operator precedence', () => {
+    expect(evaluateExpression('1 + 2 * 3 ^ 2', {})).toBe(19);
+    expect(evaluateExpression('(1 + 2) * 3', {})).toBe(9);
+    // Like in maths, -2 ^ 2 is -(2 ^ 2)
+    expect(evaluateExpression('-2 ^ 2 + 10 % 4', {})).toBe(-2);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseExpression('price *')).toThrow(FormSchemaError);
+    for (const source of ['', '1 +', '(1', 'round()', 'floor(1, 2)', 'eval(1)', 'a; b']) {
+      expect(isValidExpression(source), source).toBe(false);
+    }
+  });
+
+  it('lists the fields an expression reads', () => {
+    expect(expressionFieldIds(parseExpression('round(weight / (height / 100) ^ 2, 1)'))).toEqual(['weight', 'height']);
+  });
+});
+
+describe('evaluateExpression', () => {
+  it('reads numeric answers, also typed as text', () => {
+    expect(evaluateExpression('round(weight / (height / 100) ^ 2, 1)', { weight: '70', height: 175 })).toBe(22.9);
+  });
+
+  it('is undefined when an answer is missing or the result is not finite', () => {
+    expect(evaluateExpression('price * quantity', { price: 5 })).toBeUndefined();
+    expect(evaluateExpression('price / quantity', { price: 5, quantity: 0 })).toBeUndefined();
+    expect(evaluateExpression('sqrt(x)', { x: -1 })).toBeUndefined();
+    expect(evaluateExpression('x * 2', { x: 'abc' })).toBeUndefined();
+  });
+
+  it('hides floating point noise', () => {
+    expect(evaluateExpression('0.1 + 0.2', {})).toBe(0.3);
+  });
+
+  it('counts picked options', () => {
+    expect(evaluateExpression('count(toppings) * 2', { toppings: ['ham', 'cheese'] })).toBe(4);
+    expect(evaluateExpression('count(agree)', { agree: false })).toBe(0);
+  });
+
+  it('counts full years since a date', () => {
+    const now = new Date(2025, 5, 15);
+    expect(evaluateExpression('age(born)', { born: '2000-06-15' }, now)).toBe(25);
+    expect(evaluateExpression('age(born)', { born: '2000-06-16' }, now)).toBe(24);
+    expect(evaluateExpression('age(born)', { born: 'yesterday' }, now)).toBeUndefined();
+  });
+});
+
+describe('computeAnswers', () => {
+  const fields = [
+    { id: 'source', type: 'hidden' as const, param: 'utm_source', defaultValue: 'direct' },
+    { id: 'price', type: 'number' as const },
+    { id: 'quantity', type: 'number' as const },
+    { id: 'total', type: 'calculated' as const, expression: 'price * quantity' },
+    { id: 'with_tax', type: 'calculated' as const, expression: 'round(total * 1.2, 2)' },
+  ];
+
+  it('fills in hidden and calculated fields in form order', () => {
+    expect(computeAnswers(fields, { price: '2.5', quantity: '3' }, { utm_source: 'newsletter' })).toEqual({
+      source: 'newsletter',
+      price: '2.5',
+      quantity: '3',
+      total: 7.5,
+      with_tax: 9,
+    });
+  });
+
+  it('overwrites what the client sent for computed fields', () => {
+    const answers = computeAnswers(fields, { price: '2', source: 'forged', total: 1000, with_tax: 1000 });
+    expect(answers).toEqual({ price: '2', source: 'direct' });
+  });
+
+  it('truncates long URL parameters', () => {
+    const answers = computeAnswers(fields, {}, { utm_source: 'x'.repeat(1000) });
+    expect(answers.source).toHaveLength(500);
+  });
+});
@@ -0,0 +1,281 @@
+import { FormSchemaError } from "./errors.ts";
+import type { FieldType, FormField } from "./schema.ts";
+import type { FormData, FormValue } from "./values.ts";
+
+// Fields whose answer is filled in by the form rather than typed by the
+// respondent. They are recomputed by submit-form, never trusted as sent.
+export const COMPUTED_FIELD_TYPES: readonly FieldType[] = ['calculated', 'hidden'];
+
+export const isComputedType = (type: FieldType): boolean => COMPUTED_FIELD_TYPES.includes(type);
+
+// Longest value a hidden field takes from the URL
+export const MAX_HIDDEN_VALUE_LENGTH = 500;
+
+/**
+ * Calculated fields use a small arithmetic language over earlier answers:
+ * numbers, field ids, + - * / % ^, parentheses and the functions below,
+ * e.g. `round(weight / (height / 100) ^ 2, 1)` or `age(date_of_birth)`.
+ * It is parsed, never eval'd, so a schema can't run code in the browser or
+ * in the edge functions.
+ */
+export type Expression =
+  | { kind: 'number'; value: number }
+  | { kind: 'field'; id: string }
+  | { kind: 'negate'; operand: Expression }
+  | { kind: 'binary'; op: BinaryOperator; left: Expression; right: Expression }
+  | { kind: 'call'; name: FunctionName; args: Expression[] };
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^';
+
+// Allowed argument counts per function
+const FUNCTIONS = {
+  round: [1, 2],
+  floor: [1, 1],
+  ceil: [1, 1],
+  abs: [1, 1],
+  sqrt: [1, 1],
+  min: [1, Infinity],
+  max: [1, Infinity],
+  // Number of options picked in a multiselect (or 1/0 for any other answer)
+  count: [1, 1],
+  // Full years elapsed since a date answer, e.g. age from date of birth
+  age: [1, 1],
+} as const;
+
+type FunctionName = keyof typeof FUNCTIONS;
+
+const isFunctionName = (name: string): name is FunctionName => name in FUNCTIONS;
+
+const TOKEN = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_]\w*)|(\S))/y;
+
+function tokenize(source: string): string[] {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while (TOKEN.lastIndex < source.length && (match = TOKEN.exec(source))) {
+    const token = match[1] ?? match[2] ?? match[3];
+    if (token !== undefined) tokens.push(token);
+  }
+  return tokens;
+}
+
+export function parseExpression(source: string): Expression {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new FormSchemaError(`Invalid expression "${source}": ${message}`);
+  };
+  const peek = () => tokens[position];
+  const expect = (token: string) => {
+    if (tokens[position] !== token) fail(`expected "${token}"`);
+    position++;
+  };
+
+  const parseSum = (): Expression => {
+    let left = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      const op = tokens[position++] as BinaryOperator;
+      left = { kind: 'binary', op, left, right: parseProduct() };
+    }
+    return left;
+  };
+
+  const parseProduct = (): Expression => {
+    let left = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = tokens[position++] as BinaryOperator;
+      left = { kind: 'binary', op, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expression => {
+    if (peek() === '-') {
+      position++;
+      return { kind: 'negate', operand: parseUnary() };
+    }
+    if (peek() === '+') {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // Right-associative and binds tighter than unary minus on its left
+  const parsePower = (): Expression => {
+    const base = parsePrimary();
+    if (peek() !== '^') return base;
+    position++;
+    return { kind: 'binary', op: '^', left: base, right: parseUnary() };
+  };
+
+  const parsePrimary = (): Expression => {
+    const token = tokens[position++];
+    if (token === undefined) return fail('unexpected end');
+    if (token === '(') {
+      const inner = parseSum();
+      expect(')');
+      return inner;
+    }
+    if (/^[\d.]/.test(token)) return { kind: 'number', value: Number(token) };
+    if (!/^[A-Za-z_]/.test(token)) return fail(`unexpected "${token}"`);
+    if (peek() !== '(') return { kind: 'field', id: token };
+
+    if (!isFunctionName(token)) return fail(`unknown function "${token}"`);
+    position++;
+    const args: Expression[] = [];
+    if (peek() !== ')') {
+      args.push(parseSum());
+      while (peek() === ',') {
+        position++;
+        args.push(parseSum());
+      }
+    }
+    expect(')');
+    const [min, max] = FUNCTIONS[token];
+    if (args.length < min || args.length > max) fail(`wrong number of arguments to ${token}()`);
+    if (token === 'age' || token === 'count') {
+      if (args[0].kind !== 'field') fail(`${token}() takes a field id`);
+    }
+    return { kind: 'call', name: token, args };
+  };
+
+  const expression = parseSum();
+  if (position < tokens.length) fail(`unexpected "${tokens[position]}"`);
+  return expression;
+}
+
+export function isValidExpression(source: string): boolean {
+  try {
+    parseExpression(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Ids of every field an expression reads
+export function expressionFieldIds(expression: Expression): string[] {
+  switch (expression.kind) {
+    case 'number':
+      return [];
+    case 'field':
+      return [expression.id];
+    case 'negate':
+      return expressionFieldIds(expression.operand);
+    case 'binary':
+      return [...expressionFieldIds(expression.left), ...expressionFieldIds(expression.right)];
+    case 'call':
+      return expression.args.flatMap(expressionFieldIds);
+  }
+}
+
+const toNumber = (value: FormValue | undefined): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() && Number.isFinite(Number(value))) return Number(value);
+  return undefined;
+};
+
+function yearsSince(value: FormValue | undefined, now: Date): number | undefined {
+  const match = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null;
+  if (!match) return undefined;
+  const [year, month, day] = match.slice(1).map(Number);
+  const beforeBirthday = now.getMonth() + 1 < month || (now.getMonth() + 1 === month && now.getDate() < day);
+  return now.getFullYear() - year - (beforeBirthday ? 1 : 0);
+}
+
+function evaluate(expression: Expression, data: FormData, now: Date): number | undefined {
+  switch (expression.kind) {
+    case 'number':
+      return expression.value;
+    case 'field':
+      return toNumber(data[expression.id]);
+    case 'negate': {
+      const operand = evaluate(expression.operand, data, now);
+      return operand === undefined ? undefined : -operand;
+    }
+    case 'binary': {
+      const left = evaluate(expression.left, data, now);
+      const right = evaluate(expression.right, data, now);
+      if (left === undefined || right === undefined) return undefined;
+      switch (expression.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? undefined : left / right;
+        case '%': return right === 0 ? undefined : left % right;
+        case '^': return left ** right;
+      }
+      return undefined;
+    }
+    case 'call': {
+      const [first] = expression.args;
+      if (expression.name === 'age' || expression.name === 'count') {
+        const answer = first.kind === 'field' ? data[first.id] : undefined;
+        if (expression.name === 'age') return yearsSince(answer, now);
+        return Array.isArray(answer) ? answer.length : answer === undefined || answer === '' || answer === false ? 0 : 1;
+      }
+      const args = expression.args.map(arg => evaluate(arg, data, now));
+      if (args.some(arg => arg === undefined)) return undefined;
+      const values = args as number[];
+      switch (expression.name) {
+        case 'round': {
+          const factor = 10 ** Math.trunc(values[1] ?? 0);
+          return Math.round(values[0] * factor) / factor;
+        }
+        case 'floor': return Math.floor(values[0]);
+        case 'ceil': return Math.ceil(values[0]);
+        case 'abs': return Math.abs(values[0]);
+        case 'sqrt': return values[0] < 0 ? undefined : Math.sqrt(values[0]);
+        case 'min': return Math.min(...values);
+        case 'max': return Math.max(...values);
+      }
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Evaluates an expression against the answers. Returns undefined when an
+ * answer it needs is missing or not a number, or the result isn't finite.
+ */
+export function evaluateExpression(source: string, data: FormData, now = new Date()): number | undefined {
+  const result = evaluate(parseExpression(source), data, now);
+  if (result === undefined || !Number.isFinite(result)) return undefined;
+  // Hide floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+  return Number(result.toPrecision(12));
+}
+
+/**
+ * Fills in hidden and calculated fields, in form order so a calculation can
+ * use earlier hidden or calculated values. Whatever the client sent for
+ * these fields is overwritten. Hidden fields take their URL query parameter
+ * when present, else their constant default.
+ */
+export function computeAnswers(
+  fields: Pick<FormField, 'id' | 'type' | 'expression' | 'param' | 'defaultValue'>[],
+  data: FormData,
+  params: Record<string, string> = {},
+  now = new Date()
+): FormData {
+  const answers: FormData = { ...data };
+  for (const field of fields) {
+    let value: FormValue | undefined;
+    if (field.type === 'hidden') {
+      const param = field.param ? params[field.param] : undefined;
+      value = typeof param === 'string' && param ? param.slice(0, MAX_HIDDEN_VALUE_LENGTH) : field.defaultValue;
+    } else if (field.type === 'calculated') {
+      value = field.expression ? evaluateExpression(field.expression, answers, now) : undefined;
+    } else {
+      continue;
+    }
+
+    if (value === undefined) {
+      delete answers[field.id];
+    } else {
+      answers[field.id] = value;
+    }
+  }
+  return answers;
+}
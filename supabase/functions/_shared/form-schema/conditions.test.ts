@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { conditionFieldIds, evaluateCondition, getVisibleAnswers, getVisibleFields } from "./conditions.ts";
+
+describe('conditionFieldIds', () => {
+  it('collects the ids of nested conditions', () => {
+    expect(conditionFieldIds({
+      all: [{ field: 'age', op: 'gte', value: 18 }, { any: [{ field: 'country', op: 'filled' }] }],
+    })).toEqual(['age', 'country']);
+  });
+});
+
+describe('evaluateCondition', () => {
+  it('compares numbers numerically, also when answered as text', () => {
+    expect(evaluateCondition({ field: 'age', op: 'gte', value: 18 }, { age: '18' })).toBe(true);
+    expect(evaluateCondition({ field: 'age', op: 'gt', value: 9 }, { age: '10' })).toBe(true);
+    expect(evaluateCondition({ field: 'age', op: 'lt', value: 18 }, { age: 'ten' })).toBe(false);
+  });
+
+  it('compares dates as strings', () => {
+    expect(evaluateCondition({ field: 'start', op: 'lt', value: '2025-01-01' }, { start: '2024-12-31' })).toBe(true);
+  });
+
+  it('matches checkboxes only against booleans', () => {
+    expect(evaluateCondition({ field: 'agree', op: 'equals', value: true }, { agree: true })).toBe(true);
+    expect(evaluateCondition({ field: 'agree', op: 'equals', value: true }, { agree: 'true' })).toBe(false);
+    expect(evaluateCondition({ field: 'agree', op: 'equals', value: false }, { agree: false })).toBe(true);
+  });
+
+  it('treats multiselect answers as sets', () => {
+    const data = { toppings: ['cheese', 'ham'] };
+    expect(evaluateCondition({ field: 'toppings', op: 'equals', value: ['ham', 'cheese'] }, data)).toBe(true);
+    expect(evaluateCondition({ field: 'toppings', op: 'contains', value: 'ham' }, data)).toBe(true);
+    expect(evaluateCondition({ field: 'toppings', op: 'in', value: ['olives', 'ham'] }, data)).toBe(true);
+    expect(evaluateCondition({ field: 'toppings', op: 'not_in', value: ['olives'] }, data)).toBe(true);
+  });
+
+  it('only lets negative comparisons match unanswered fields', () => {
+    expect(evaluateCondition({ field: 'name', op: 'filled' }, { name: '  ' })).toBe(false);
+    expect(evaluateCondition({ field: 'name', op: 'empty' }, {})).toBe(true);
+    expect(evaluateCondition({ field: 'name', op: 'equals', value: '' }, {})).toBe(false);
+    expect(evaluateCondition({ field: 'name', op: 'not_equals', value: 'Ann' }, {})).toBe(true);
+  });
+
+  it('combines conditions with all and any', () => {
+    const adult = { field: 'age', op: 'gte', value: 18 } as const;
+    const student = { field: 'role', op: 'equals', value: 'Student' } as const;
+    const data = { age: 20, role: 'Staff' };
+    expect(evaluateCondition({ all: [adult, student] }, data)).toBe(false);
+    expect(evaluateCondition({ any: [adult, student] }, data)).toBe(true);
+  });
+});
+
+describe('getVisibleFields', () => {
+  const fields = [
+    { id: 'employed', visibleIf: undefined },
+    { id: 'employer', visibleIf: { field: 'employed', op: 'equals' as const, value: true } },
+    { id: 'since', visibleIf: { field: 'employer', op: 'filled' as const } },
+  ];
+
+  it('hides fields whose condition fails', () => {
+    expect(getVisibleFields(fields, { employed: true, employer: 'Acme' }).map(field => field.id))
+      .toEqual(['employed', 'employer', 'since']);
+  });
+
+  it('ignores answers of hidden fields in later conditions', () => {
+    const data = { employed: false, employer: 'Acme', since: '2020-01-01' };
+    expect(getVisibleFields(fields, data).map(field => field.id)).toEqual(['employed']);
+    expect(getVisibleAnswers(fields, data)).toEqual({ employed: false });
+  });
+});
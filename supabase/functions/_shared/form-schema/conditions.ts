@@ -0,0 +1,141 @@
+import { z } from "zod";
+import type { FormField } from "./schema.ts";
+import { isEmptyValue, type FormData, type FormValue } from "./values.ts";
+
+export const COMPARISON_OPERATORS = [
+  'equals', 'not_equals', 'in', 'not_in', 'contains',
+  'gt', 'gte', 'lt', 'lte',
+  'filled', 'empty',
+] as const;
+
+export type ComparisonOperator = typeof COMPARISON_OPERATORS[number];
+
+const conditionValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.array(z.union([z.string(), z.number()])),
+]);
+
+export const comparisonSchema = z.object({
+  field: z.string().min(1),
+  op: z.enum(COMPARISON_OPERATORS),
+  value: conditionValueSchema.optional(),
+});
+
+export type Comparison = z.infer<typeof comparisonSchema>;
+
+export type Condition =
+  | Comparison
+  | { all: Condition[] }
+  | { any: Condition[] };
+
+// Recursive, so the type can't be inferred; the cast keeps the app's
+// non-strict build (where zod makes every key optional) happy too
+export const conditionSchema = z.lazy(() => z.union([
+  comparisonSchema,
+  z.object({ all: z.array(conditionSchema).min(1) }),
+  z.object({ any: z.array(conditionSchema).min(1) }),
+])) as z.ZodType<Condition>;
+
+export const isComparison = (condition: Condition): condition is Comparison =>
+  'field' in condition;
+
+// Ids of every field a condition reads
+export function conditionFieldIds(condition: Condition): string[] {
+  if (isComparison(condition)) return [condition.field];
+  const children = 'all' in condition ? condition.all : condition.any;
+  return children.flatMap(conditionFieldIds);
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() && !Number.isNaN(Number(value))) return Number(value);
+  return undefined;
+};
+
+// Numbers compare numerically; anything else (e.g. ISO dates) as strings
+function compare(answer: FormValue, expected: unknown): number | undefined {
+  const a = toNumber(answer);
+  const b = toNumber(expected);
+  if (a !== undefined && b !== undefined) return a - b;
+  if (typeof answer === 'string' && typeof expected === 'string') return answer.localeCompare(expected);
+  return undefined;
+}
+
+const sameValue = (answer: unknown, expected: unknown): boolean =>
+  typeof answer === 'boolean' || typeof expected === 'boolean'
+    ? answer === expected
+    : String(answer) === String(expected);
+
+function evaluateComparison({ field, op, value }: Comparison, data: FormData): boolean {
+  const answer = data[field];
+  if (op === 'filled') return !isEmptyValue(answer);
+  if (op === 'empty') return isEmptyValue(answer);
+  if (isEmptyValue(answer) && typeof answer !== 'boolean') {
+    return op === 'not_equals' || op === 'not_in';
+  }
+
+  const answers: unknown[] = Array.isArray(answer) ? answer : [answer];
+  const expected: unknown[] = Array.isArray(value) ? value : [value];
+
+  switch (op) {
+    case 'equals':
+      return Array.isArray(answer)
+        ? answers.length === expected.length && expected.every(item => answers.some(a => sameValue(a, item)))
+        : sameValue(answer, value);
+    case 'not_equals':
+      return !evaluateComparison({ field, op: 'equals', value }, data);
+    case 'in':
+      return answers.some(a => expected.some(item => sameValue(a, item)));
+    case 'not_in':
+      return !evaluateComparison({ field, op: 'in', value }, data);
+    case 'contains':
+      return expected.every(item => answers.some(a => sameValue(a, item)));
+    default: {
+      const result = compare(answer, value);
+      if (result === undefined) return false;
+      if (op === 'gt') return result > 0;
+      if (op === 'gte') return result >= 0;
+      if (op === 'lt') return result < 0;
+      return result <= 0;
+    }
+  }
+}
+
+export function evaluateCondition(condition: Condition, data: FormData): boolean {
+  if (isComparison(condition)) return evaluateComparison(condition, data);
+  if ('all' in condition) return condition.all.every(child => evaluateCondition(child, data));
+  return condition.any.some(child => evaluateCondition(child, data));
+}
+
+/**
+ * Returns the fields whose visibleIf rule holds. Conditions may only refer
+ * to earlier fields, so a single pass in form order is enough; answers of
+ * fields that turned out hidden are ignored by later conditions.
+ */
+export function getVisibleFields<T extends Pick<FormField, 'id' | 'visibleIf'>>(
+  fields: T[],
+  data: FormData
+): T[] {
+  const visibleData: FormData = {};
+  return fields.filter(field => {
+    const visible = !field.visibleIf || evaluateCondition(field.visibleIf, visibleData);
+    if (visible && data[field.id] !== undefined) {
+      visibleData[field.id] = data[field.id];
+    }
+    return visible;
+  });
+}
+
+// Answers of the fields that are currently visible
+export function getVisibleAnswers<T extends Pick<FormField, 'id' | 'visibleIf'>>(
+  fields: T[],
+  data: FormData
+): FormData {
+  const answers: FormData = {};
+  for (const field of getVisibleFields(fields, data)) {
+    if (data[field.id] !== undefined) answers[field.id] = data[field.id];
+  }
+  return answers;
+}
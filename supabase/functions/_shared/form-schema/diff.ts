@@ -0,0 +1,131 @@
+import type { FormField, FormSchema } from "./schema.ts";
+
+export type SchemaChangeKind = 'form' | 'added' | 'removed' | 'changed';
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  // Field id; empty for changes to the form's own title/description
+  id: string;
+  label: string;
+  // Human-readable descriptions, e.g. `now optional` or `options added: XL`
+  details: string[];
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const quote = (value: unknown) => typeof value === 'string' ? `"${value}"` : String(value);
+
+// Ids of `before` that keep their relative order in `after` (longest common subsequence)
+function unmovedIds(before: string[], after: string[]): Set<string> {
+  const lengths = before.map(() => after.map(() => 0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? 1 + (lengths[i + 1]?.[j + 1] ?? 0)
+        : Math.max(lengths[i + 1]?.[j] ?? 0, lengths[i][j + 1] ?? 0);
+    }
+  }
+  const kept = new Set<string>();
+  for (let i = 0, j = 0; i < before.length && j < after.length;) {
+    if (before[i] === after[j]) {
+      kept.add(before[i]);
+      i++;
+      j++;
+    } else if ((lengths[i + 1]?.[j] ?? 0) >= (lengths[i][j + 1] ?? 0)) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return kept;
+}
+
+function describeFieldChanges(before: FormField, after: FormField): string[] {
+  const details: string[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof FormField>;
+
+  for (const key of keys) {
+    if (key === 'id' || same(before[key], after[key])) continue;
+    switch (key) {
+      case 'required':
+        details.push(after.required ? 'now required' : 'now optional');
+        break;
+      case 'label':
+      case 'type':
+      case 'placeholder':
+      case 'description':
+      case 'expression':
+        details.push(before[key] === undefined
+          ? `${key} set to ${quote(after[key])}`
+          : after[key] === undefined
+            ? `${key} removed`
+            : `${key} ${quote(before[key])} → ${quote(after[key])}`);
+        break;
+      case 'options': {
+        const added = (after.options ?? []).filter(option => !before.options?.includes(option));
+        const removed = (before.options ?? []).filter(option => !after.options?.includes(option));
+        if (added.length > 0) details.push(`options added: ${added.join(', ')}`);
+        if (removed.length > 0) details.push(`options removed: ${removed.join(', ')}`);
+        if (added.length === 0 && removed.length === 0) details.push('options reordered');
+        break;
+      }
+      case 'fields':
+        details.push('sub-fields changed');
+        break;
+      case 'visibleIf':
+        details.push(after.visibleIf ? 'visibility rule changed' : 'visibility rule removed');
+        break;
+      default:
+        details.push(`${key} changed`);
+    }
+  }
+  return details;
+}
+
+/**
+ * Lists what changed between two versions of a form, field by field
+ * (matched by id), in the order of the new version with removed fields
+ * last. Fields whose position changed relative to the others are reported
+ * as moved.
+ */
+export function diffFormSchemas(before: FormSchema, after: FormSchema): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  const formDetails: string[] = [];
+  if ((before.title ?? '') !== (after.title ?? '')) {
+    formDetails.push(`title ${quote(before.title ?? '')} → ${quote(after.title ?? '')}`);
+  }
+  if ((before.description ?? '') !== (after.description ?? '')) {
+    formDetails.push('description changed');
+  }
+  if (formDetails.length > 0) {
+    changes.push({ kind: 'form', id: '', label: after.title || 'Form', details: formDetails });
+  }
+
+  const previous = new Map(before.fields.map(field => [field.id, field]));
+  const next = new Set(after.fields.map(field => field.id));
+  const kept = unmovedIds(
+    before.fields.map(field => field.id).filter(id => next.has(id)),
+    after.fields.map(field => field.id).filter(id => previous.has(id))
+  );
+
+  for (const field of after.fields) {
+    const old = previous.get(field.id);
+    if (!old) {
+      changes.push({ kind: 'added', id: field.id, label: field.label, details: [field.type] });
+      continue;
+    }
+    const details = describeFieldChanges(old, field);
+    if (!kept.has(field.id)) details.unshift('moved');
+    if (details.length > 0) {
+      changes.push({ kind: 'changed', id: field.id, label: field.label, details });
+    }
+  }
+  for (const field of before.fields) {
+    if (!next.has(field.id)) {
+      changes.push({ kind: 'removed', id: field.id, label: field.label, details: [field.type] });
+    }
+  }
+
+  return changes;
+}
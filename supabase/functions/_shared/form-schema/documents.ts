@@ -0,0 +1,125 @@
+import { z } from "zod";
+
+// Documents a form can be generated from, by file extension
+export const SOURCE_DOCUMENT_KINDS = {
+  txt: 'text',
+  csv: 'csv',
+  docx: 'docx',
+  pdf: 'pdf',
+} as const;
+
+export type SourceDocumentKind = typeof SOURCE_DOCUMENT_KINDS[keyof typeof SOURCE_DOCUMENT_KINDS];
+
+// For the file input's accept attribute
+export const SOURCE_DOCUMENT_ACCEPT = Object.keys(SOURCE_DOCUMENT_KINDS).map(extension => `.${extension}`).join(',');
+
+export const MAX_SOURCE_DOCUMENT_SIZE_MB = 5;
+
+// Extracted text beyond this is cut off before it is sent to the AI
+export const MAX_SOURCE_DOCUMENT_CHARS = 30000;
+
+// Spreadsheet rows shown to the AI besides the header, to hint at column types
+const CSV_SAMPLE_ROWS = 5;
+
+export function sourceDocumentKind(name: string): SourceDocumentKind | undefined {
+  const extension = name.toLowerCase().split('.').pop() ?? '';
+  return Object.keys(SOURCE_DOCUMENT_KINDS).includes(extension)
+    ? SOURCE_DOCUMENT_KINDS[extension as keyof typeof SOURCE_DOCUMENT_KINDS]
+    : undefined;
+}
+
+export function sourceDocumentError(file: { name: string; size: number }): string | null {
+  if (!sourceDocumentKind(file.name)) {
+    return `${file.name} is not a text, CSV, Word or PDF file`;
+  }
+  if (file.size > MAX_SOURCE_DOCUMENT_SIZE_MB * 1024 * 1024) {
+    return `${file.name} is larger than ${MAX_SOURCE_DOCUMENT_SIZE_MB} MB`;
+  }
+  return null;
+}
+
+// An uploaded document as sent to generate-form, its bytes base64 encoded
+export const sourceDocumentSchema = z.object({
+  name: z.string().trim().min(1),
+  content: z.string().min(1).regex(/^[A-Za-z0-9+/]*={0,2}$/, 'content must be base64 encoded'),
+}).superRefine((document, ctx) => {
+  const error = sourceDocumentError({ name: document.name, size: Math.floor(document.content.length * 3 / 4) });
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+});
+
+export type SourceDocument = z.infer<typeof sourceDocumentSchema>;
+
+/**
+ * Splits CSV text into rows of cells, stopping after `maxRows`. Handles
+ * quoted cells with commas, doubled quotes and line breaks; semicolon
+ * separated files (common in European exports) are detected from the
+ * header row.
+ */
+export function parseCsvRows(text: string, maxRows = Infinity): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const separator = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const endRow = () => {
+    row.push(cell.trim());
+    if (row.some(value => value !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (rows.length < maxRows && (cell || row.length > 0)) endRow();
+  return rows;
+}
+
+/**
+ * Writes the text of an uploaded document into the message for the AI.
+ * Spreadsheets are reduced to their column headers and a few sample rows,
+ * since every row after the header is an answer rather than a question.
+ */
+export function formatSourceDocument(name: string, kind: SourceDocumentKind, text: string): string {
+  if (kind === 'csv') {
+    const [header = [], ...samples] = parseCsvRows(text, CSV_SAMPLE_ROWS + 1);
+    const lines = [
+      `Spreadsheet "${name}". Each column becomes a field.`,
+      `Columns: ${header.map(column => JSON.stringify(column)).join(', ')}`,
+    ];
+    if (samples.length > 0) {
+      lines.push('Sample rows:', ...samples.map(sample => sample.join(' | ')));
+    }
+    return lines.join('\n');
+  }
+
+  const trimmed = text.trim();
+  const content = trimmed.length > MAX_SOURCE_DOCUMENT_CHARS
+    ? `${trimmed.slice(0, MAX_SOURCE_DOCUMENT_CHARS)}\n[... the rest of the document was cut off]`
+    : trimmed;
+  return `Document "${name}":\n"""\n${content}\n"""`;
+}
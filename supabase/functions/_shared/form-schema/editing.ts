@@ -0,0 +1,143 @@
+import { toSnakeCase } from "./ai-output.ts";
+import { isComputedType } from "./computed.ts";
+import { isRepeatableType } from "./groups.ts";
+import { DISPLAY_FIELD_TYPES } from "./pages.ts";
+import { isRangeType } from "./range.ts";
+import {
+  CHOICE_FIELD_TYPES,
+  FIELD_TYPES,
+  type FieldType,
+  type FieldValidation,
+  type FormField,
+  type FormSchema,
+} from "./schema.ts";
+import { isTemporalType } from "./temporal.ts";
+
+// Helpers for editing a schema by hand in the builder
+
+export const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  text: 'Short text',
+  email: 'Email',
+  tel: 'Phone',
+  number: 'Number',
+  select: 'Dropdown',
+  textarea: 'Long text',
+  date: 'Date',
+  time: 'Time',
+  datetime: 'Date and time',
+  radio: 'Single choice',
+  checkbox: 'Checkbox',
+  multiselect: 'Multiple choice',
+  file: 'File upload',
+  rating: 'Rating',
+  scale: 'Scale',
+  slider: 'Slider',
+  section: 'Section',
+  page_break: 'Page break',
+  group: 'Repeating group',
+  calculated: 'Calculated',
+  hidden: 'Hidden',
+};
+
+// Types a group's sub-fields can have
+export const SUB_FIELD_TYPES: readonly FieldType[] = FIELD_TYPES.filter(isRepeatableType);
+
+const PATTERN_FIELD_TYPES: readonly FieldType[] = ['text', 'email', 'tel', 'number', 'textarea'];
+
+// The `validation` properties that apply to a type, see refineField in schema.ts
+export function validationKeysFor(type: FieldType): (keyof FieldValidation)[] {
+  if (PATTERN_FIELD_TYPES.includes(type)) return ['pattern', 'message'];
+  if (isTemporalType(type)) return ['min', 'max'];
+  switch (type) {
+    case 'multiselect':
+      return ['minSelected', 'maxSelected'];
+    case 'file':
+      return ['accept', 'maxFileSizeMb', 'maxFiles'];
+    case 'group':
+      return ['minItems', 'maxItems'];
+    default:
+      return [];
+  }
+}
+
+// A snake_case id based on `base` that isn't in `taken`
+export function uniqueFieldId(base: string, taken: Iterable<string>): string {
+  const used = new Set(taken);
+  const slug = toSnakeCase(base) || 'field';
+  const root = /^\d/.test(slug) ? `field_${slug}` : slug;
+  let id = root;
+  for (let n = 2; used.has(id); n++) {
+    id = `${root}_${n}`;
+  }
+  return id;
+}
+
+// Fills in what a field of its type needs to be valid
+function withTypeDefaults(field: FormField): FormField {
+  if (CHOICE_FIELD_TYPES.includes(field.type) && !field.options?.length) {
+    return { ...field, options: ['Option 1', 'Option 2'] };
+  }
+  if (field.type === 'calculated' && !field.expression) {
+    return { ...field, expression: '0' };
+  }
+  if (field.type === 'hidden' && !field.param && field.defaultValue === undefined) {
+    return { ...field, param: field.id };
+  }
+  if (field.type === 'group' && !field.fields?.length) {
+    return { ...field, fields: [{ id: 'item', label: 'Item', type: 'text', required: false }] };
+  }
+  return field;
+}
+
+export function createField(type: FieldType, takenIds: Iterable<string>): FormField {
+  const label = FIELD_TYPE_LABELS[type];
+  return withTypeDefaults({ id: uniqueFieldId(label, takenIds), label, type, required: false });
+}
+
+/**
+ * Switches a field to another type, keeping what still applies (id, label,
+ * help text, condition, compatible validation) and dropping the settings
+ * the new type doesn't use.
+ */
+export function changeFieldType(field: FormField, type: FieldType): FormField {
+  const keys = validationKeysFor(type);
+  const validation = Object.fromEntries(
+    Object.entries(field.validation ?? {}).filter(([key]) => keys.includes(key as keyof FieldValidation))
+  );
+  return withTypeDefaults({
+    id: field.id,
+    label: field.label,
+    type,
+    description: field.description,
+    placeholder: DISPLAY_FIELD_TYPES.includes(type) ? undefined : field.placeholder,
+    required: field.required && !DISPLAY_FIELD_TYPES.includes(type) && !isComputedType(type),
+    validation: Object.keys(validation).length > 0 ? validation : undefined,
+    options: CHOICE_FIELD_TYPES.includes(type) ? field.options : undefined,
+    range: isRangeType(type) ? field.range : undefined,
+    visibleIf: field.visibleIf,
+    branches: type === 'page_break' ? field.branches : undefined,
+    fields: type === 'group' ? field.fields : undefined,
+    expression: type === 'calculated' ? field.expression : undefined,
+    param: type === 'hidden' ? field.param : undefined,
+    defaultValue: type === 'hidden' ? field.defaultValue : undefined,
+  });
+}
+
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+}
+
+const tidyField = <T extends FormField>(field: T): T => ({
+  ...field,
+  options: field.options?.map(option => option.trim()).filter(Boolean),
+  fields: field.fields?.map(tidyField),
+});
+
+// Drops the blank options left over from editing them one per line
+export const tidyFormSchema = (schema: FormSchema): FormSchema => ({
+  ...schema,
+  fields: schema.fields.map(tidyField),
+});
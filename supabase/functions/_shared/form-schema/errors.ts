@@ -0,0 +1,9 @@
+export class FormSchemaError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'FormSchemaError';
+    this.issues = issues;
+  }
+}
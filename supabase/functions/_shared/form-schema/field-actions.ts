@@ -0,0 +1,56 @@
+import { validationKeysFor } from "./editing.ts";
+import { CHOICE_FIELD_TYPES, type FormField } from "./schema.ts";
+
+// Changes the AI can make to one field of a generated form
+export const FIELD_ACTIONS = ['regenerate', 'label', 'validation', 'options'] as const;
+
+export type FieldAction = typeof FIELD_ACTIONS[number];
+
+export const FIELD_ACTION_LABELS: Record<FieldAction, string> = {
+  regenerate: 'Regenerate',
+  label: 'Rewrite label more clearly',
+  validation: 'Suggest validation',
+  options: 'Suggest options',
+};
+
+// The properties of the AI's answer an action may change; regenerating
+// replaces everything but the id
+const ACTION_PROPERTIES: Record<Exclude<FieldAction, 'regenerate'>, readonly string[]> = {
+  label: ['label', 'description', 'placeholder'],
+  validation: ['validation'],
+  options: ['options'],
+};
+
+export function fieldActionsFor(field: FormField): FieldAction[] {
+  return FIELD_ACTIONS.filter(action => {
+    switch (action) {
+      case 'validation':
+        return validationKeysFor(field.type).length > 0;
+      case 'options':
+        return CHOICE_FIELD_TYPES.includes(field.type);
+      default:
+        return true;
+    }
+  });
+}
+
+/**
+ * Merges the AI's version of a field into the original, taking only what
+ * the action is meant to change. The id always stays, since answers are
+ * stored under it and other fields may refer to it. The result still has
+ * to be validated as part of the form.
+ */
+export function applyFieldPatch(field: FormField, patch: Record<string, unknown>, action: FieldAction): Record<string, unknown> {
+  if (action === 'regenerate') {
+    return { ...patch, id: field.id };
+  }
+  const merged: Record<string, unknown> = { ...field };
+  for (const key of ACTION_PROPERTIES[action]) {
+    if (patch[key] !== undefined) merged[key] = patch[key];
+  }
+  return merged;
+}
+
+// The fields with one of them swapped for another, unvalidated
+export const replaceField = (fields: FormField[], id: string, replacement: unknown): unknown[] =>
+  fields.map(field => field.id === id ? replacement : field);
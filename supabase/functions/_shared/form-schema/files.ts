@@ -0,0 +1,41 @@
+import type { FormField } from "./schema.ts";
+
+// Hard cap enforced by the storage bucket; fields may only lower it
+export const MAX_FILE_SIZE_MB = 10;
+
+export const FORM_UPLOADS_BUCKET = 'form-uploads';
+
+// Size and MIME type of an uploaded object, as recorded by storage
+export type StoredFile = { size: number; type: string };
+
+/**
+ * Whether a MIME type matches an accept list entry: exact types
+ * ("application/pdf") or wildcards ("image/*").
+ */
+export function matchesAccept(mimeType: string, accept: string[] | undefined): boolean {
+  if (!accept?.length) return true;
+  const type = mimeType.toLowerCase();
+  return accept.some(entry => {
+    const pattern = entry.toLowerCase().trim();
+    if (pattern === '*/*') return true;
+    if (pattern.endsWith('/*')) return type.startsWith(pattern.slice(0, -1));
+    return type === pattern;
+  });
+}
+
+export const maxFileSizeMb = (field: FormField): number =>
+  Math.min(field.validation?.maxFileSizeMb ?? MAX_FILE_SIZE_MB, MAX_FILE_SIZE_MB);
+
+export const maxFileCount = (field: FormField): number =>
+  field.validation?.maxFiles ?? 1;
+
+export function fileConstraintError(field: FormField, file: { name: string; size: number; type: string }): string | null {
+  if (!matchesAccept(file.type, field.validation?.accept)) {
+    return `${file.name} is not an accepted file type`;
+  }
+  const limit = maxFileSizeMb(field);
+  if (file.size > limit * 1024 * 1024) {
+    return `${file.name} is larger than ${limit} MB`;
+  }
+  return null;
+}
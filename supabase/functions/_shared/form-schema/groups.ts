@@ -0,0 +1,23 @@
+import { getVisibleAnswers } from "./conditions.ts";
+import { isComputedType } from "./computed.ts";
+import { DISPLAY_FIELD_TYPES } from "./pages.ts";
+import type { FieldType, FormField } from "./schema.ts";
+import { isGroupItems, type GroupItem } from "./values.ts";
+
+// Groups don't nest, and layout elements and computed fields make no sense
+// inside an entry
+export const isRepeatableType = (type: FieldType): boolean =>
+  type !== 'group' && !DISPLAY_FIELD_TYPES.includes(type) && !isComputedType(type);
+
+// Entries a group starts with before the respondent adds or removes any
+export const initialGroupItemCount = (field: Pick<FormField, 'validation'>): number =>
+  Math.max(field.validation?.minItems ?? 0, 1);
+
+/**
+ * Keeps, for every entry of a group, only the answers to sub-fields that are
+ * visible within that entry. Anything that isn't a list of entries is dropped.
+ */
+export function pruneGroupItems(field: Pick<FormField, 'fields'>, value: unknown): GroupItem[] {
+  if (!isGroupItems(value)) return [];
+  return value.map(item => getVisibleAnswers(field.fields ?? [], item));
+}
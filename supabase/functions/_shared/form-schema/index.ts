@@ -0,0 +1,22 @@
+export * from "./ai-output.ts";
+export * from "./clarification.ts";
+export * from "./computed.ts";
+export * from "./conditions.ts";
+export * from "./diff.ts";
+export * from "./documents.ts";
+export * from "./editing.ts";
+export * from "./errors.ts";
+export * from "./field-actions.ts";
+export * from "./files.ts";
+export * from "./groups.ts";
+export * from "./schema.ts";
+export * from "./migrations.ts";
+export * from "./orphans.ts";
+export * from "./pages.ts";
+export * from "./patterns.ts";
+export * from "./range.ts";
+export * from "./repair.ts";
+export * from "./stream.ts";
+export * from "./temporal.ts";
+export * from "./validation.ts";
+export * from "./values.ts";
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { FormSchemaError } from "./errors.ts";
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, migrateFormSchema, needsMigration } from "./migrations.ts";
+import { safeParseFormSchema } from "./repair.ts";
+
+const fields = [{ id: 'name', label: 'Name', type: 'text' }];
+
+describe('getSchemaVersion', () => {
+  it('treats rows saved before versioning as version 1', () => {
+    expect(getSchemaVersion({ fields })).toBe(1);
+    expect(getSchemaVersion({ fields, schemaVersion: 'two' })).toBe(1);
+    expect(getSchemaVersion({ fields, schemaVersion: 0 })).toBe(1);
+  });
+
+  it('reads an explicit version', () => {
+    expect(getSchemaVersion({ fields, schemaVersion: 2 })).toBe(2);
+  });
+});
+
+describe('migrateFormSchema', () => {
+  it('upgrades a v1 schema to v2', () => {
+    const v1 = { title: 'Signup', fields };
+    expect(needsMigration(v1)).toBe(true);
+
+    const { schema, fromVersion } = migrateFormSchema(v1);
+    expect(fromVersion).toBe(1);
+    expect(schema).toEqual({ title: 'Signup', fields, schemaVersion: 2 });
+    expect(needsMigration(schema)).toBe(false);
+  });
+
+  it('leaves a current schema as it is', () => {
+    const current = { fields, schemaVersion: CURRENT_SCHEMA_VERSION };
+    expect(migrateFormSchema(current)).toEqual({ schema: current, fromVersion: CURRENT_SCHEMA_VERSION });
+  });
+
+  it('rejects a schema written by a newer build', () => {
+    const newer = { fields, schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+    expect(() => migrateFormSchema(newer)).toThrow(FormSchemaError);
+    expect(() => migrateFormSchema(newer)).toThrow(
+      `Form schema version ${CURRENT_SCHEMA_VERSION + 1} is newer than supported version ${CURRENT_SCHEMA_VERSION}`
+    );
+  });
+
+  it('fails when a step has no migration', () => {
+    expect(() => migrateFormSchema({ fields }, {})).toThrow(FormSchemaError);
+    expect(() => migrateFormSchema({ fields }, {})).toThrow('No migration from form schema version 1');
+  });
+});
+
+describe('safeParseFormSchema', () => {
+  it('records the migration as a repair', () => {
+    const result = safeParseFormSchema({ fields });
+    expect(result.success).toBe(true);
+    expect(result.data?.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(result.repairs).toContain(`Migrated schema from version 1 to ${CURRENT_SCHEMA_VERSION}`);
+  });
+
+  it('returns the newer-version error instead of throwing', () => {
+    const result = safeParseFormSchema({ fields, schemaVersion: CURRENT_SCHEMA_VERSION + 1 });
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toMatch(/is newer than supported version/);
+  });
+});
@@ -0,0 +1,55 @@
+import { FormSchemaError } from "./errors.ts";
+
+/**
+ * Version of the field model written by this build. Bump it together with a
+ * new entry in MIGRATIONS whenever stored schemas need rewriting.
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+type StoredSchema = Record<string, unknown>;
+
+export type Migration = (schema: StoredSchema) => StoredSchema;
+
+// Keyed by the version a migration upgrades *from*. Rows saved before
+// versioning existed have no schemaVersion and are treated as version 1.
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 -> v2: introduces the schemaVersion marker; the field model is unchanged
+  1: schema => ({ ...schema }),
+};
+
+export function getSchemaVersion(schema: StoredSchema): number {
+  const version = schema.schemaVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : 1;
+}
+
+export function needsMigration(schema: StoredSchema): boolean {
+  return getSchemaVersion(schema) < CURRENT_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrades a stored schema to CURRENT_SCHEMA_VERSION one step at a time.
+ * Throws when the schema was written by a newer build than this one, or a
+ * step has no migration.
+ */
+export function migrateFormSchema(
+  schema: StoredSchema,
+  migrations: Record<number, Migration> = MIGRATIONS
+): { schema: StoredSchema; fromVersion: number } {
+  const fromVersion = getSchemaVersion(schema);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new FormSchemaError(
+      `Form schema version ${fromVersion} is newer than supported version ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  let current = schema;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new FormSchemaError(`No migration from form schema version ${version}`);
+    }
+    current = { ...migrate(current), schemaVersion: version + 1 };
+  }
+
+  return { schema: current, fromVersion };
+}
@@ -0,0 +1,70 @@
+import { DISPLAY_FIELD_TYPES } from "./pages.ts";
+import type { FieldType, FormSchema } from "./schema.ts";
+import { isEmptyValue, type FormValue } from "./values.ts";
+
+// The shape answers of a type are stored in, see FormValue
+type AnswerShape = 'text' | 'number' | 'boolean' | 'list' | 'files' | 'items' | 'none';
+
+const ANSWER_SHAPES: Record<FieldType, AnswerShape> = {
+  text: 'text',
+  email: 'text',
+  tel: 'text',
+  textarea: 'text',
+  select: 'text',
+  radio: 'text',
+  date: 'text',
+  time: 'text',
+  datetime: 'text',
+  hidden: 'text',
+  // Typed into a text input, so stored as the string the respondent entered
+  number: 'text',
+  rating: 'number',
+  scale: 'number',
+  slider: 'number',
+  calculated: 'number',
+  checkbox: 'boolean',
+  multiselect: 'list',
+  file: 'files',
+  group: 'items',
+  section: 'none',
+  page_break: 'none',
+};
+
+// A field whose stored answers a change would leave behind
+export interface OrphanedField {
+  id: string;
+  label: string;
+  reason: 'removed' | 'type_changed';
+  from: FieldType;
+  // The new type, when the type changed
+  to?: FieldType;
+}
+
+/**
+ * Fields of `before` whose answers no longer fit `after`: removed fields
+ * (or fields whose id changed), and type changes that store answers in a
+ * different shape, e.g. a dropdown (one string) becoming multiple choice
+ * (a list). Changes within a shape, like short to long text, are safe.
+ */
+export function findOrphanedFields(before: FormSchema, after: FormSchema): OrphanedField[] {
+  const afterById = new Map(after.fields.map(field => [field.id, field]));
+  return before.fields.flatMap((field): OrphanedField[] => {
+    if (DISPLAY_FIELD_TYPES.includes(field.type)) return [];
+    const next = afterById.get(field.id);
+    if (!next) {
+      return [{ id: field.id, label: field.label, reason: 'removed', from: field.type }];
+    }
+    if (ANSWER_SHAPES[next.type] !== ANSWER_SHAPES[field.type]) {
+      return [{ id: field.id, label: field.label, reason: 'type_changed', from: field.type, to: next.type }];
+    }
+    return [];
+  });
+}
+
+// How many of the submissions answered each of the fields
+export function countAnswers(submissions: Record<string, FormValue | undefined>[], fieldIds: string[]): Record<string, number> {
+  return Object.fromEntries(fieldIds.map(id => [
+    id,
+    submissions.filter(answers => !isEmptyValue(answers[id])).length,
+  ]));
+}
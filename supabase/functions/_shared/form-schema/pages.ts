@@ -0,0 +1,108 @@
+import { evaluateCondition, getVisibleAnswers, getVisibleFields } from "./conditions.ts";
+import { pruneGroupItems } from "./groups.ts";
+import type { FieldType, FormField } from "./schema.ts";
+import type { FormData } from "./values.ts";
+
+// Layout elements that live in `fields` but never hold an answer
+export const DISPLAY_FIELD_TYPES: readonly FieldType[] = ['section', 'page_break'];
+
+export const isInputField = (field: Pick<FormField, 'type'>): boolean =>
+  !DISPLAY_FIELD_TYPES.includes(field.type);
+
+// Branch target that ends the form instead of jumping to a page
+export const SUBMIT_TARGET = 'submit';
+
+// Id of the page before the first page_break
+export const FIRST_PAGE_ID = 'start';
+
+export interface FormPage {
+  id: string;
+  // The page_break that starts this page; undefined for the first page
+  pageBreak?: FormField;
+  fields: FormField[];
+}
+
+/**
+ * Splits the field list at each page_break. A page_break ends the page
+ * before it and starts the next one: its label titles the new page, its
+ * visibleIf decides whether the page is shown at all, and its branches are
+ * checked when leaving the previous page. Empty pages are dropped, and
+ * hidden fields are left out since they are never shown.
+ */
+export function splitIntoPages(fields: FormField[]): FormPage[] {
+  const pages: FormPage[] = [];
+  let current: FormPage = { id: FIRST_PAGE_ID, fields: [] };
+
+  for (const field of fields) {
+    if (field.type === 'hidden') continue;
+    if (field.type === 'page_break') {
+      if (current.fields.length > 0) pages.push(current);
+      current = { id: field.id, pageBreak: field, fields: [] };
+    } else {
+      current.fields.push(field);
+    }
+  }
+  if (current.fields.length > 0 || pages.length === 0) pages.push(current);
+
+  return pages;
+}
+
+const isPageShown = (page: FormPage, data: FormData): boolean =>
+  !page.pageBreak?.visibleIf || evaluateCondition(page.pageBreak.visibleIf, data);
+
+/**
+ * Index of the page that follows `current` given the answers so far, or
+ * null when the respondent should submit. Branches only ever move forward.
+ */
+export function nextPageIndex(pages: FormPage[], current: number, data: FormData): number | null {
+  const exit = pages[current + 1]?.pageBreak;
+  const branch = exit?.branches?.find(candidate => evaluateCondition(candidate.when, data));
+
+  let next = current + 1;
+  if (branch?.goTo === SUBMIT_TARGET) {
+    next = pages.length;
+  } else if (branch) {
+    const target = pages.findIndex(page => page.id === branch.goTo);
+    if (target > current) next = target;
+  }
+
+  while (next < pages.length && !isPageShown(pages[next], data)) {
+    next++;
+  }
+  return next < pages.length ? next : null;
+}
+
+// Indexes of the pages a respondent with these answers goes through
+export function getPagePath(pages: FormPage[], data: FormData): number[] {
+  const path: number[] = [];
+  for (let index: number | null = 0; index !== null; index = nextPageIndex(pages, index, data)) {
+    path.push(index);
+  }
+  return path;
+}
+
+/**
+ * The input fields a respondent actually sees: visible according to their
+ * visibleIf rules and on a page along the branching path. Hidden fields
+ * belong to no page and count whenever their visibleIf holds.
+ */
+export function getActiveFields(fields: FormField[], data: FormData): FormField[] {
+  const visible = getVisibleFields(fields, data);
+  const pages = splitIntoPages(fields);
+  const onPath = new Set(
+    getPagePath(pages, getVisibleAnswers(fields, data)).flatMap(index => pages[index].fields.map(field => field.id))
+  );
+  return visible.filter(field => isInputField(field) && (field.type === 'hidden' || onPath.has(field.id)));
+}
+
+// Drops answers to fields that are hidden, skipped or not in the form at all
+export function pruneHiddenAnswers(fields: FormField[], data: FormData): FormData {
+  const pruned: FormData = {};
+  for (const field of getActiveFields(fields, data)) {
+    if (data[field.id] === undefined) continue;
+    pruned[field.id] = field.type === 'group'
+      ? pruneGroupItems(field, data[field.id])
+      : data[field.id];
+  }
+  return pruned;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+import { MAX_PATTERN_LENGTH, checkPattern, isSlowPattern, matchesPattern, normalisePattern } from "./patterns.ts";
+
+describe('checkPattern', () => {
+  it('accepts common validation patterns', () => {
+    for (const pattern of [
+      '^\\d{5}(-\\d{4})?$',
+      '^[A-Z]{2}\\d{2}[A-Z0-9]{1,30}$',
+      '^[\\w.+-]+@([\\w-]+\\.)+[a-z]{2,}$',
+      '^\\+?[0-9 ()-]{7,20}$',
+    ]) {
+      expect(checkPattern(pattern), pattern).toEqual({ safe: true });
+    }
+  });
+
+  it('rejects invalid syntax', () => {
+    expect(checkPattern('([a-z]').safe).toBe(false);
+  });
+
+  it('rejects overly long patterns', () => {
+    expect(checkPattern('a'.repeat(MAX_PATTERN_LENGTH + 1))).toEqual({
+      safe: false,
+      reason: `longer than ${MAX_PATTERN_LENGTH} characters`,
+    });
+  });
+
+  it('rejects nested quantifiers and backreferences', () => {
+    expect(checkPattern('^(a+)+$')).toEqual({ safe: false, reason: 'nested quantifiers' });
+    expect(checkPattern('^(\\w+\\s?)*$')).toEqual({ safe: false, reason: 'nested quantifiers' });
+    expect(checkPattern('^(a)\\1$')).toEqual({ safe: false, reason: 'backreferences are not allowed' });
+  });
+});
+
+describe('isSlowPattern', () => {
+  it('catches overlapping alternation the structural checks miss', () => {
+    expect(checkPattern('^(\\w|\\d)*$').safe).toBe(true);
+    expect(isSlowPattern('^(\\w|\\d)*$')).toBe(true);
+  });
+
+  it('passes fast patterns', () => {
+    expect(isSlowPattern('^[A-Z]{3}-\\d+$')).toBe(false);
+  });
+});
+
+describe('normalisePattern', () => {
+  it('strips JavaScript literal slashes and flags', () => {
+    expect(normalisePattern('/^\\d+$/i')).toBe('^\\d+$');
+    expect(normalisePattern('^\\d+$')).toBe('^\\d+$');
+  });
+});
+
+describe('matchesPattern', () => {
+  it('tests answers against the pattern', () => {
+    expect(matchesPattern('^\\d{5}$', '12345')).toBe(true);
+    expect(matchesPattern('^\\d{5}$', '1234')).toBe(false);
+  });
+
+  it('lets answers pass patterns that fail vetting', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(matchesPattern('^(a+)+$', 'b')).toBe(true);
+    expect(warn).toHaveBeenCalledWith('Skipping unsafe validation pattern: ^(a+)+$');
+    warn.mockRestore();
+  });
+});
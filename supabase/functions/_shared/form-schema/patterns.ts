@@ -0,0 +1,199 @@
+// Validation patterns come from the model (or a form's author) and run in
+// every respondent's browser and in submit-form, so they are vetted before
+// use: an invalid pattern would throw, and one prone to catastrophic
+// backtracking could freeze the tab on a crafted answer. checkPattern is
+// deterministic and runs on every parse; the timing probe (isSlowPattern)
+// depends on the machine, so it only runs when a form is generated or saved.
+
+export const MAX_PATTERN_LENGTH = 500;
+
+// A single probe taking longer than this marks the pattern as unsafe
+const PROBE_BUDGET_MS = 25;
+
+// Repeated chunks followed by a character that usually fails the match,
+// which is what makes vulnerable patterns backtrack
+const PROBE_CHUNKS = ['a', '0', ' ', 'a0', 'a.', '-', '@'];
+const PROBE_TERMINATOR = '!';
+
+// Grows slowly at first so exponential blow-ups are caught while still cheap,
+// then quickly to catch polynomial ones
+const PROBE_LENGTHS = [8, 10, 12, 14, 16, 18, 20, 22, 24, 28, 32, 48, 64, 128, 256, 512];
+
+// `reason?: never` lets the app's non-strict build narrow on `safe` too
+export type PatternCheck = { safe: true; reason?: never } | { safe: false; reason: string };
+
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})/;
+
+const isUnboundedQuantifier = (quantifier: string) =>
+  quantifier === '*' || quantifier === '+' || /^\{\d+,\}$/.test(quantifier);
+
+// Whether a quantifier lets its atom match a varying number of times
+function isRepeatingQuantifier(quantifier: string): boolean {
+  if (quantifier === '*' || quantifier === '+') return true;
+  const bounds = /^\{(\d+),(\d*)\}$/.exec(quantifier);
+  if (!bounds) return false;
+  return bounds[2] === '' || (Number(bounds[2]) > 1 && Number(bounds[2]) > Number(bounds[1]));
+}
+
+interface OpenGroup {
+  // Something inside the group repeats a varying number of times
+  repeats: boolean;
+  hasAlternation: boolean;
+  // No atom has been read yet
+  isEmpty: boolean;
+  // The group starts/ends with a literal character that must be matched
+  startsWithLiteral: boolean;
+  endsWithLiteral: boolean;
+}
+
+/**
+ * Cheap structural checks for the classic ReDoS shapes: backreferences, and
+ * a group that contains a repeating quantifier and is itself repeated
+ * without bound, as in `(a+)+` or `(\w+\s?)*`. Groups that start or end
+ * with a required literal, like `([\w-]+\.)+`, can only split one way and
+ * pass.
+ */
+function findRiskyStructure(pattern: string): string | null {
+  const groups: OpenGroup[] = [];
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === '(') {
+      groups.push({
+        repeats: false,
+        hasAlternation: false,
+        isEmpty: true,
+        startsWithLiteral: false,
+        endsWithLiteral: false,
+      });
+      // Skip the prefix of (?:...), lookarounds and named groups
+      const prefix = /^\(\?(?:[:=!]|<[=!]|<[^>]*>)?/.exec(pattern.slice(i))?.[0] ?? '(';
+      i += prefix.length;
+      continue;
+    }
+    if (char === '|') {
+      if (groups.length > 0) groups[groups.length - 1].hasAlternation = true;
+      i++;
+      continue;
+    }
+
+    let closed: OpenGroup | undefined;
+    let isLiteral = false;
+    if (char === ')') {
+      closed = groups.pop();
+      i++;
+    } else if (char === '\\') {
+      const next = pattern[i + 1] ?? '';
+      if (/[1-9k]/.test(next)) return 'backreferences are not allowed';
+      isLiteral = !/[A-Za-z0-9]/.test(next);
+      i += 2;
+    } else if (char === '[') {
+      let end = i + 1;
+      if (pattern[end] === '^') end++;
+      if (pattern[end] === ']') end++;
+      while (end < pattern.length && pattern[end] !== ']') {
+        end += pattern[end] === '\\' ? 2 : 1;
+      }
+      i = end + 1;
+    } else {
+      isLiteral = !'.^$'.includes(char);
+      i++;
+    }
+
+    const quantifier = QUANTIFIER.exec(pattern.slice(i))?.[0];
+    if (quantifier) {
+      i += quantifier.length;
+      if (pattern[i] === '?') i++;
+    }
+    const repeats = !!quantifier && isRepeatingQuantifier(quantifier);
+
+    if (closed?.repeats && quantifier && isUnboundedQuantifier(quantifier)
+      && (closed.hasAlternation || !(closed.startsWithLiteral || closed.endsWithLiteral))) {
+      return 'nested quantifiers';
+    }
+    const group = groups[groups.length - 1];
+    if (group) {
+      const isRequiredLiteral = isLiteral && (!quantifier || /^\{\d+\}$/.test(quantifier));
+      group.repeats ||= repeats || !!closed?.repeats;
+      if (group.isEmpty) group.startsWithLiteral = isRequiredLiteral;
+      group.isEmpty = false;
+      group.endsWithLiteral = isRequiredLiteral;
+    }
+  }
+  return null;
+}
+
+// Times the pattern on inputs that make vulnerable patterns backtrack
+function exceedsTimeBudget(regex: RegExp): boolean {
+  for (const chunk of PROBE_CHUNKS) {
+    for (const length of PROBE_LENGTHS) {
+      const input = chunk.repeat(Math.ceil(length / chunk.length)) + PROBE_TERMINATOR;
+      const start = Date.now();
+      regex.test(input);
+      if (Date.now() - start > PROBE_BUDGET_MS) return true;
+    }
+  }
+  return false;
+}
+
+// Length, syntax and structure checks, with the same result on every machine
+export function checkPattern(pattern: string): PatternCheck {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return { safe: false, reason: `longer than ${MAX_PATTERN_LENGTH} characters` };
+  }
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    return { safe: false, reason: error instanceof Error ? error.message : 'invalid syntax' };
+  }
+  const risk = findRiskyStructure(pattern);
+  if (risk) return { safe: false, reason: risk };
+  return { safe: true };
+}
+
+/**
+ * Times a pattern that passed checkPattern on inputs that make vulnerable
+ * patterns backtrack, to catch what the structural checks miss.
+ */
+export function isSlowPattern(pattern: string): boolean {
+  try {
+    return exceedsTimeBudget(new RegExp(pattern));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fixes the mistakes models commonly make when writing a pattern as a JSON
+ * string, such as wrapping it in JavaScript literal slashes (`/^\d+$/i`).
+ * Flags are dropped since patterns are always compiled without them.
+ */
+export function normalisePattern(pattern: string): string {
+  const literal = /^\/(.+)\/[dgimsuvy]*$/s.exec(pattern.trim());
+  return literal ? literal[1] : pattern;
+}
+
+const checked = new Map<string, boolean>();
+
+const isSafePattern = (pattern: string): boolean => {
+  let safe = checked.get(pattern);
+  if (safe === undefined) {
+    safe = checkPattern(pattern).safe;
+    checked.set(pattern, safe);
+  }
+  return safe;
+};
+
+/**
+ * Tests an answer against a field's pattern. Patterns that fail vetting are
+ * skipped (the answer passes) rather than trusted; they are normally dropped
+ * when the schema is parsed, so this only guards schemas that bypassed it.
+ */
+export function matchesPattern(pattern: string, value: string): boolean {
+  if (!isSafePattern(pattern)) {
+    console.warn(`Skipping unsafe validation pattern: ${pattern}`);
+    return true;
+  }
+  return new RegExp(pattern).test(value);
+}
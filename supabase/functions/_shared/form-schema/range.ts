@@ -0,0 +1,49 @@
+import type { FieldType, FormField } from "./schema.ts";
+
+export type RangeFieldType = Extract<FieldType, 'rating' | 'scale' | 'slider'>;
+
+export const RANGE_FIELD_TYPES: readonly RangeFieldType[] = ['rating', 'scale', 'slider'];
+
+export const isRangeType = (type: string): type is RangeFieldType =>
+  (RANGE_FIELD_TYPES as readonly string[]).includes(type);
+
+// Scales are rendered as one button per point, so keep them short
+export const MAX_SCALE_POINTS = 11;
+export const MAX_RATING = 10;
+
+export interface ResolvedRange {
+  min: number;
+  max: number;
+  step: number;
+  minLabel?: string;
+  maxLabel?: string;
+}
+
+const DEFAULT_RANGES: Record<RangeFieldType, ResolvedRange> = {
+  rating: { min: 1, max: 5, step: 1 },
+  scale: { min: 1, max: 5, step: 1 },
+  slider: { min: 0, max: 100, step: 1 },
+};
+
+/**
+ * The range a rating, scale or slider answer must fall in, with the
+ * per-type defaults filled in. Ratings always start at one star.
+ */
+export function resolveRange(field: FormField): ResolvedRange {
+  const type = isRangeType(field.type) ? field.type : 'slider';
+  const defined = Object.entries(field.range ?? {}).filter(([, value]) => value !== undefined);
+  const range: ResolvedRange = { ...DEFAULT_RANGES[type], ...Object.fromEntries(defined) };
+  if (type === 'rating') {
+    return { ...range, min: 1, step: 1 };
+  }
+  return range;
+}
+
+export const scalePointCount = (range: ResolvedRange): number =>
+  Math.floor((range.max - range.min) / range.step) + 1;
+
+export function isInRange(value: number, range: ResolvedRange): boolean {
+  if (value < range.min || value > range.max) return false;
+  const steps = (value - range.min) / range.step;
+  return Math.abs(steps - Math.round(steps)) < 1e-9;
+}
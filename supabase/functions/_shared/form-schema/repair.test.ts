@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import { dropSlowPatterns, safeParseFormSchema, safeParseGenerationResult } from "./repair.ts";
+import type { FormSchema } from "./schema.ts";
+
+const parse = (fields: unknown[]) => {
+  const result = safeParseFormSchema({ schemaVersion: 2, fields });
+  if (!result.success) throw result.error;
+  return result;
+};
+
+describe('safeParseFormSchema', () => {
+  it('accepts a valid schema without repairs', () => {
+    const result = parse([
+      { id: 'name', label: 'Name', type: 'text', required: true },
+      { id: 'plan', label: 'Plan', type: 'select', options: ['Free', 'Pro'] },
+    ]);
+    expect(result.repairs).toEqual([]);
+    expect(result.warnings).toEqual([]);
+    expect(result.data.fields.map(field => field.type)).toEqual(['text', 'select']);
+  });
+
+  it('rejects input that is not a form', () => {
+    expect(safeParseFormSchema('form').success).toBe(false);
+    expect(safeParseFormSchema({ type: 'clarification', fields: [] }).success).toBe(false);
+  });
+
+  it('fails when no usable fields are left', () => {
+    const result = safeParseFormSchema({ fields: ['not a field'] });
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('Form schema has no usable fields');
+    expect(result.error?.issues).toContain('Dropped field #1: not an object');
+  });
+
+  it('maps type aliases and falls back to text', () => {
+    const { data, repairs } = parse([
+      { id: 'phone', label: 'Phone', type: 'telephone' },
+      { id: 'mood', label: 'Mood', type: 'emoji' },
+    ]);
+    expect(data.fields.map(field => field.type)).toEqual(['tel', 'text']);
+    expect(repairs).toContain('Field "mood": unknown type "emoji", using text');
+  });
+
+  it('reads options from other shapes', () => {
+    const { data, repairs } = parse([
+      { id: 'size', label: 'Size', type: 'radio', choices: [{ label: 'Small' }, { value: 'Large' }] },
+      { id: 'color', label: 'Color', type: 'select', options: 'Red, Green;Blue' },
+    ]);
+    expect(data.fields[0].options).toEqual(['Small', 'Large']);
+    expect(data.fields[1].options).toEqual(['Red', 'Green', 'Blue']);
+    expect(repairs).toContain('Field "size": read options from "choices"');
+  });
+
+  it('turns a choice field without options into text', () => {
+    const { data, repairs } = parse([{ id: 'plan', label: 'Plan', type: 'select', options: [] }]);
+    expect(data.fields[0].type).toBe('text');
+    expect(repairs).toContain('Field "plan": select without options, using text');
+  });
+
+  it('renames duplicate ids', () => {
+    const { data, repairs } = parse([
+      { id: 'name', label: 'First name', type: 'text' },
+      { id: 'name', label: 'Last name', type: 'text' },
+    ]);
+    expect(data.fields.map(field => field.id)).toEqual(['name', 'name_2']);
+    expect(repairs).toContain('Renamed duplicate field id "name" to "name_2"');
+  });
+
+  it('drops conditions on fields that do not come earlier', () => {
+    const { data, repairs } = parse([
+      { id: 'details', label: 'Details', type: 'text', visibleIf: { field: 'other', op: '=', value: 'yes' } },
+      { id: 'other', label: 'Other', type: 'checkbox' },
+    ]);
+    expect(data.fields[0].visibleIf).toBeUndefined();
+    expect(repairs).toContain('Field "details": dropped visibleIf referring to other');
+  });
+
+  it('normalises condition operators', () => {
+    const { data } = parse([
+      { id: 'age', label: 'Age', type: 'number' },
+      { id: 'drinks', label: 'Drinks', type: 'text', visibleIf: { all: [{ field: 'age', op: '>=', value: 18 }] } },
+    ]);
+    expect(data.fields[1].visibleIf).toEqual({ field: 'age', op: 'gte', value: 18 });
+  });
+
+  it('drops calculated fields with an invalid expression or later inputs', () => {
+    const { data, repairs } = parse([
+      { id: 'total', label: 'Total', type: 'calculated', expression: 'price *' },
+      { id: 'double', label: 'Double', type: 'calculated', expression: 'price * 2' },
+      { id: 'price', label: 'Price', type: 'number' },
+    ]);
+    expect(data.fields.map(field => field.id)).toEqual(['price']);
+    expect(repairs).toContain('Dropped calculated field "total": invalid expression "price *"');
+    expect(repairs).toContain('Dropped calculated field "double": expression refers to price');
+  });
+
+  it('strips slashes from patterns and warns about dropped ones', () => {
+    const { data, repairs, warnings } = parse([
+      { id: 'zip', label: 'ZIP', type: 'text', validation: { pattern: '/^\\d{5}$/' } },
+      { id: 'code', label: 'Code', type: 'text', validation: { pattern: '(a+)+$' } },
+    ]);
+    expect(data.fields[0].validation?.pattern).toBe('^\\d{5}$');
+    expect(data.fields[1].validation).toBeUndefined();
+    expect(repairs).toContain('Field "zip": removed the slashes around its validation pattern');
+    expect(warnings).toEqual(['Field "code": dropped validation pattern "(a+)+$" (nested quantifiers)']);
+  });
+
+  it('drops branches to unknown pages', () => {
+    const { data, repairs } = parse([
+      { id: 'role', label: 'Role', type: 'radio', options: ['Student', 'Staff'] },
+      {
+        id: 'next',
+        label: 'Next',
+        type: 'page_break',
+        branches: [
+          { when: { field: 'role', op: 'equals', value: 'Student' }, goTo: 'students' },
+          { when: { field: 'role', op: 'equals', value: 'Staff' }, goTo: 'nowhere' },
+        ],
+      },
+      { id: 'students', label: 'Students', type: 'page_break' },
+    ]);
+    expect(data.fields[1].branches).toEqual([
+      { when: { field: 'role', op: 'equals', value: 'Student' }, goTo: 'students' },
+    ]);
+    expect(repairs).toContain('Field "next": dropped branch to unknown page "nowhere"');
+  });
+
+  it('keeps only repeatable sub-fields in groups', () => {
+    const { data, repairs } = parse([
+      {
+        id: 'people',
+        label: 'People',
+        type: 'group',
+        fields: [
+          { id: 'name', label: 'Name', type: 'text' },
+          { id: 'break', label: 'Break', type: 'page_break' },
+        ],
+      },
+    ]);
+    expect(data.fields[0].fields?.map(field => field.id)).toEqual(['name']);
+    expect(repairs).toContain('Group "people": dropped page_break "break"');
+  });
+});
+
+describe('safeParseGenerationResult', () => {
+  it('accepts a clarification request', () => {
+    const result = safeParseGenerationResult({
+      type: 'clarification',
+      questions: ['Who is the form for?', { question: 'How long may it take?', choices: ['1 minute', '5 minutes'] }],
+    });
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({
+      type: 'clarification',
+      contradiction: '',
+      questions: [
+        { question: 'Who is the form for?' },
+        { question: 'How long may it take?', choices: ['1 minute', '5 minutes'] },
+      ],
+    });
+  });
+});
+
+describe('dropSlowPatterns', () => {
+  const schema = (pattern: string): FormSchema => ({
+    type: 'form',
+    schemaVersion: 2,
+    fields: [{
+      id: 'people',
+      label: 'People',
+      type: 'group',
+      required: false,
+      fields: [{ id: 'code', label: 'Code', type: 'text', required: false, validation: { pattern, message: 'Bad code' } }],
+    }],
+  });
+
+  it('returns the same schema when every pattern is fast', () => {
+    const fast = schema('^[A-Z]{3}$');
+    expect(dropSlowPatterns(fast)).toEqual({ schema: fast, warnings: [] });
+    expect(dropSlowPatterns(fast).schema).toBe(fast);
+  });
+
+  it('drops slow patterns in group sub-fields and keeps their message', () => {
+    const { schema: vetted, warnings } = dropSlowPatterns(schema('^(\\w|\\d)*$'));
+    expect(vetted.fields[0].fields?.[0].validation).toEqual({ message: 'Bad code' });
+    expect(warnings).toEqual(['Field "code": dropped validation pattern "^(\\\\w|\\\\d)*$" (too slow on long answers)']);
+  });
+});
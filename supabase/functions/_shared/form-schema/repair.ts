@@ -0,0 +1,541 @@
+import type { ZodError } from "zod";
+import {
+  COMPARISON_OPERATORS,
+  conditionFieldIds,
+  type ComparisonOperator,
+  type Condition,
+} from "./conditions.ts";
+import { expressionFieldIds, isComputedType, isValidExpression, parseExpression } from "./computed.ts";
+import { FormSchemaError } from "./errors.ts";
+import { isRepeatableType } from "./groups.ts";
+import { CURRENT_SCHEMA_VERSION, migrateFormSchema } from "./migrations.ts";
+import { checkPattern, isSlowPattern, normalisePattern } from "./patterns.ts";
+import { SUBMIT_TARGET, isInputField } from "./pages.ts";
+import { MAX_RATING, MAX_SCALE_POINTS, isRangeType, resolveRange, scalePointCount } from "./range.ts";
+import { isTemporalType, isValidTemporalBound } from "./temporal.ts";
+import {
+  CHOICE_FIELD_TYPES,
+  FIELD_TYPES,
+  clarificationRequestSchema,
+  formSchemaSchema,
+  type FieldRange,
+  type FieldType,
+  type PageBranch,
+  type FormField,
+  type FormSchema,
+  type GenerationResult,
+} from "./schema.ts";
+
+// `warnings` are the repairs that change how the form behaves for
+// respondents (such as a dropped validation pattern), worth showing its author
+export type SafeParseResult<T> =
+  | { success: true; data: T; repairs: string[]; warnings: string[]; error?: never }
+  | { success: false; error: FormSchemaError; data?: never; repairs?: never; warnings?: never };
+
+// Names the model (or older versions of the app) have used for our types
+const TYPE_ALIASES: Record<string, FieldType> = {
+  phone: 'tel',
+  telephone: 'tel',
+  string: 'text',
+  integer: 'number',
+  dropdown: 'select',
+  paragraph: 'textarea',
+  long_text: 'textarea',
+  'datetime-local': 'datetime',
+  date_time: 'datetime',
+  radio_group: 'radio',
+  consent: 'checkbox',
+  boolean: 'checkbox',
+  checkboxes: 'multiselect',
+  checkbox_list: 'multiselect',
+  'multi-select': 'multiselect',
+  multi_select: 'multiselect',
+  upload: 'file',
+  attachment: 'file',
+  stars: 'rating',
+  star_rating: 'rating',
+  likert: 'scale',
+  linear_scale: 'scale',
+  nps: 'scale',
+  range: 'slider',
+  heading: 'section',
+  page: 'page_break',
+  pagebreak: 'page_break',
+  'page-break': 'page_break',
+  repeater: 'group',
+  repeatable: 'group',
+  repeating_group: 'group',
+  computed: 'calculated',
+  calculation: 'calculated',
+  formula: 'calculated',
+};
+
+const NPS_RANGE = { min: 0, max: 10, step: 1, minLabel: 'Not at all likely', maxLabel: 'Extremely likely' };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const optionalCount = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : undefined;
+
+const optionalPositive = (value: unknown): number | undefined =>
+  typeof value === 'number' && value > 0 ? value : undefined;
+
+const optionalStrings = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const strings = value.filter((item): item is string => typeof item === 'string' && !!item.trim());
+  return strings.length > 0 ? strings : undefined;
+};
+
+const formatIssues = (error: ZodError): string[] =>
+  error.issues.map(issue => `${issue.path.join('.') || 'schema'}: ${issue.message}`);
+
+const normaliseType = (value: unknown): FieldType | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const key = value.trim().toLowerCase();
+  if ((FIELD_TYPES as readonly string[]).includes(key)) return key as FieldType;
+  return TYPE_ALIASES[key];
+};
+
+// Collected while repairing; see SafeParseResult
+interface RepairLog {
+  repairs: string[];
+  warnings: string[];
+}
+
+function repairPattern(raw: unknown, id: string, log: RepairLog): string | undefined {
+  const pattern = optionalString(raw);
+  if (!pattern) return undefined;
+  const normalised = normalisePattern(pattern);
+  if (normalised !== pattern) {
+    log.repairs.push(`Field "${id}": removed the slashes around its validation pattern`);
+  }
+  const check = checkPattern(normalised);
+  if (!check.safe) {
+    const message = `Field "${id}": dropped validation pattern ${JSON.stringify(normalised)} (${check.reason})`;
+    log.repairs.push(message);
+    log.warnings.push(message);
+    return undefined;
+  }
+  return normalised;
+}
+
+// Turns an option written as a number or a {label, value} object into its text
+const optionText = (option: unknown): string | undefined => {
+  if (typeof option === 'number') return String(option);
+  if (isRecord(option)) return optionalString(option.label) ?? optionText(option.value);
+  return optionalString(option);
+};
+
+/**
+ * Reads a choice field's options, also from the shapes models tend to use
+ * instead of a list of strings: `choices`/`values` keys, {label, value}
+ * objects, or a single comma-, semicolon- or newline-separated string.
+ */
+function repairOptions(raw: Record<string, unknown>, id: string, repairs: string[]): string[] | undefined {
+  const key = (['options', 'choices', 'values'] as const).find(name => raw[name] !== undefined);
+  if (!key) return undefined;
+  const value = raw[key];
+
+  let items: unknown[];
+  if (Array.isArray(value)) {
+    items = value;
+  } else if (typeof value === 'string') {
+    items = value.split(/[,;\n]/).map(part => part.trim());
+  } else {
+    return undefined;
+  }
+  const options = Array.from(new Set(
+    items.map(optionText).filter((option): option is string => !!option)
+  ));
+
+  const isPlainList = key === 'options' && Array.isArray(value)
+    && value.every(option => typeof option === 'string');
+  if (!isPlainList && options.length > 0) {
+    repairs.push(`Field "${id}": read options from ${key === 'options' ? 'an unexpected format' : `"${key}"`}`);
+  }
+  return options;
+}
+
+function repairField(raw: unknown, index: number, log: RepairLog): Record<string, unknown> | null {
+  const { repairs } = log;
+  if (!isRecord(raw)) {
+    repairs.push(`Dropped field #${index + 1}: not an object`);
+    return null;
+  }
+
+  const id = optionalString(raw.id) ?? optionalString(raw.name) ?? `field_${index + 1}`;
+  const label = optionalString(raw.label) ?? id;
+  if (label !== raw.label) {
+    repairs.push(`Field "${id}": missing label`);
+  }
+
+  let type = normaliseType(raw.type);
+  if (!type) {
+    repairs.push(`Field "${id}": unknown type ${JSON.stringify(raw.type)}, using text`);
+    type = 'text';
+  }
+
+  const options = repairOptions(raw, id, repairs);
+  if (CHOICE_FIELD_TYPES.includes(type) && !options?.length) {
+    repairs.push(`Field "${id}": ${type} without options, using text`);
+    type = 'text';
+  }
+
+  let range = isRangeType(type) ? repairRange(raw.range, id, repairs) : undefined;
+  if (!range && typeof raw.type === 'string' && raw.type.trim().toLowerCase() === 'nps') {
+    range = NPS_RANGE;
+  }
+  if (type === 'rating' && range) {
+    const { min, ...rest } = range;
+    range = { ...rest, step: undefined };
+    if (range.max !== undefined && (range.max > MAX_RATING || !Number.isInteger(range.max))) {
+      const max = Math.min(Math.max(Math.round(range.max), 2), MAX_RATING);
+      repairs.push(`Field "${id}": rating max ${range.max} is invalid, using ${max}`);
+      range.max = max;
+    }
+  }
+  if (type === 'scale' && range && scalePointCount(resolveRange({ type, range } as FormField)) > MAX_SCALE_POINTS) {
+    repairs.push(`Field "${id}": scale has too many points, using slider`);
+    type = 'slider';
+  }
+
+  const validation = isRecord(raw.validation)
+    ? {
+        pattern: repairPattern(raw.validation.pattern, id, log),
+        message: optionalString(raw.validation.message),
+        min: optionalString(raw.validation.min),
+        max: optionalString(raw.validation.max),
+        minSelected: type === 'multiselect' ? optionalCount(raw.validation.minSelected) : undefined,
+        maxSelected: type === 'multiselect' ? optionalCount(raw.validation.maxSelected) || undefined : undefined,
+        accept: type === 'file' ? optionalStrings(raw.validation.accept) : undefined,
+        maxFileSizeMb: type === 'file' ? optionalPositive(raw.validation.maxFileSizeMb) : undefined,
+        maxFiles: type === 'file' ? optionalCount(raw.validation.maxFiles) || undefined : undefined,
+        minItems: type === 'group' ? optionalCount(raw.validation.minItems) : undefined,
+        maxItems: type === 'group' ? optionalCount(raw.validation.maxItems) || undefined : undefined,
+      }
+    : undefined;
+  if (validation?.minSelected !== undefined && options && validation.minSelected > options.length) {
+    repairs.push(`Field "${id}": minSelected exceeds the number of options`);
+    validation.minSelected = options.length;
+  }
+  if (validation?.minSelected !== undefined && validation.maxSelected !== undefined
+    && validation.minSelected > validation.maxSelected) {
+    repairs.push(`Field "${id}": minSelected exceeds maxSelected`);
+    validation.maxSelected = undefined;
+  }
+  if (validation?.minItems !== undefined && validation.maxItems !== undefined
+    && validation.minItems > validation.maxItems) {
+    repairs.push(`Field "${id}": minItems exceeds maxItems`);
+    validation.maxItems = undefined;
+  }
+  for (const edge of ['min', 'max'] as const) {
+    const bound = validation?.[edge];
+    if (bound && !(isTemporalType(type) && isValidTemporalBound(type, bound))) {
+      repairs.push(`Field "${id}": dropped invalid ${edge} "${bound}"`);
+      validation[edge] = undefined;
+    }
+  }
+
+  const expression = type === 'calculated' ? optionalString(raw.expression) : undefined;
+  if (type === 'calculated' && !(expression && isValidExpression(expression))) {
+    repairs.push(`Dropped calculated field "${id}": invalid expression ${JSON.stringify(raw.expression)}`);
+    return null;
+  }
+  const param = type === 'hidden' ? optionalString(raw.param) : undefined;
+  const defaultValue = type === 'hidden' && (typeof raw.defaultValue === 'string' || typeof raw.defaultValue === 'number')
+    ? String(raw.defaultValue)
+    : undefined;
+  if (type === 'hidden' && !param && defaultValue === undefined) {
+    repairs.push(`Dropped hidden field "${id}": no param or defaultValue`);
+    return null;
+  }
+
+  let fields: Record<string, unknown>[] | undefined;
+  if (type === 'group') {
+    fields = repairSubFields(raw.fields, id, log);
+    if (fields.length === 0) {
+      repairs.push(`Dropped group "${id}": no usable sub-fields`);
+      return null;
+    }
+  }
+
+  return {
+    id,
+    label,
+    type,
+    description: optionalString(raw.description),
+    placeholder: optionalString(raw.placeholder),
+    required: isInputField({ type }) && !isComputedType(type) && (raw.required === true || raw.required === 'true'),
+    validation: validation && Object.values(validation).some(Boolean) ? validation : undefined,
+    options: CHOICE_FIELD_TYPES.includes(type) ? options : undefined,
+    range,
+    visibleIf: repairCondition(raw.visibleIf),
+    branches: type === 'page_break' ? repairBranches(raw.branches) : undefined,
+    fields,
+    expression,
+    param,
+    defaultValue,
+  };
+}
+
+function repairSubFields(raw: unknown, groupId: string, log: RepairLog): Record<string, unknown>[] {
+  if (!Array.isArray(raw)) return [];
+  const { repairs } = log;
+  const subFields = raw
+    .map((item, index) => repairField(item, index, log))
+    .filter((field): field is Record<string, unknown> => {
+      if (field === null) return false;
+      if (isRepeatableType(field.type as FieldType)) return true;
+      repairs.push(`Group "${groupId}": dropped ${field.type} "${field.id}"`);
+      return false;
+    });
+  return scopeFieldIds(subFields, repairs);
+}
+
+function repairBranches(raw: unknown): PageBranch[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const branches = raw.flatMap(branch => {
+    if (!isRecord(branch)) return [];
+    const when = repairCondition(branch.when);
+    const goTo = optionalString(branch.goTo);
+    return when && goTo ? [{ when, goTo }] : [];
+  });
+  return branches.length > 0 ? branches : undefined;
+}
+
+const OPERATOR_ALIASES: Record<string, ComparisonOperator> = {
+  '=': 'equals',
+  '==': 'equals',
+  eq: 'equals',
+  '!=': 'not_equals',
+  neq: 'not_equals',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+  is_filled: 'filled',
+  not_empty: 'filled',
+  is_empty: 'empty',
+};
+
+// Returns a structurally valid condition, or undefined when nothing usable is left
+function repairCondition(raw: unknown): Condition | undefined {
+  if (!isRecord(raw)) return undefined;
+
+  for (const key of ['all', 'any'] as const) {
+    if (Array.isArray(raw[key])) {
+      const children = (raw[key] as unknown[])
+        .map(repairCondition)
+        .filter((child): child is Condition => child !== undefined);
+      if (children.length === 0) return undefined;
+      if (children.length === 1) return children[0];
+      return key === 'all' ? { all: children } : { any: children };
+    }
+  }
+
+  const field = optionalString(raw.field);
+  const opKey = typeof raw.op === 'string' ? raw.op.trim().toLowerCase() : '';
+  const op = (COMPARISON_OPERATORS as readonly string[]).includes(opKey)
+    ? opKey as ComparisonOperator
+    : OPERATOR_ALIASES[opKey];
+  if (!field || !op) return undefined;
+
+  const { value } = raw;
+  const isScalar = (item: unknown) => typeof item === 'string' || typeof item === 'number';
+  if (op === 'filled' || op === 'empty') return { field, op };
+  if (Array.isArray(value)) {
+    const items = value.filter(isScalar) as (string | number)[];
+    return items.length > 0 ? { field, op, value: items } : undefined;
+  }
+  if (isScalar(value) || typeof value === 'boolean') {
+    return { field, op, value: value as string | number | boolean };
+  }
+  return undefined;
+}
+
+function repairRange(raw: unknown, id: string, repairs: string[]): FieldRange | undefined {
+  if (!isRecord(raw)) return undefined;
+  const number = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+  const range: FieldRange = {
+    min: number(raw.min),
+    max: number(raw.max),
+    step: optionalPositive(raw.step),
+    minLabel: optionalString(raw.minLabel),
+    maxLabel: optionalString(raw.maxLabel),
+  };
+  if (range.min !== undefined && range.max !== undefined && range.min >= range.max) {
+    repairs.push(`Field "${id}": range min ${range.min} is not below max ${range.max}, using defaults`);
+    range.min = undefined;
+    range.max = undefined;
+  }
+  return Object.values(range).some(value => value !== undefined) ? range : undefined;
+}
+
+/**
+ * Makes field ids unique within one list (the form, or a group's sub-fields)
+ * and drops conditions that refer to fields which don't come earlier in it.
+ */
+function scopeFieldIds(
+  fields: Record<string, unknown>[],
+  repairs: string[]
+): (Record<string, unknown> & { id: string; branches?: PageBranch[] })[] {
+  const seen = new Set<string>();
+  return fields.flatMap(field => {
+    let id = field.id as string;
+    for (let n = 2; seen.has(id); n++) {
+      id = `${field.id}_${n}`;
+    }
+    if (id !== field.id) {
+      repairs.push(`Renamed duplicate field id "${field.id}" to "${id}"`);
+    }
+    let visibleIf = field.visibleIf as Condition | undefined;
+    const unknown = visibleIf ? conditionFieldIds(visibleIf).filter(ref => !seen.has(ref)) : [];
+    if (unknown.length > 0) {
+      repairs.push(`Field "${id}": dropped visibleIf referring to ${unknown.join(', ')}`);
+      visibleIf = undefined;
+    }
+    const branches = (field.branches as PageBranch[] | undefined)?.filter(branch => {
+      const refs = conditionFieldIds(branch.when).filter(ref => !seen.has(ref));
+      if (refs.length > 0) {
+        repairs.push(`Field "${id}": dropped branch referring to ${refs.join(', ')}`);
+        return false;
+      }
+      return true;
+    });
+    const inputs = typeof field.expression === 'string'
+      ? expressionFieldIds(parseExpression(field.expression)).filter(ref => !seen.has(ref))
+      : [];
+    if (inputs.length > 0) {
+      repairs.push(`Dropped calculated field "${id}": expression refers to ${inputs.join(', ')}`);
+      return [];
+    }
+    seen.add(id);
+    return [{ ...field, id, visibleIf, branches: branches?.length ? branches : undefined }];
+  });
+}
+
+/**
+ * Coerces loosely-shaped input (AI output, legacy rows) into something the
+ * strict zod schema will accept, recording every change that was made.
+ */
+function repairFormInput(input: Record<string, unknown>, log: RepairLog): Record<string, unknown> {
+  const { repairs } = log;
+  const rawFields = Array.isArray(input.fields) ? input.fields : [];
+  if (!Array.isArray(input.fields)) {
+    repairs.push('Missing fields list');
+  }
+
+  const fields = scopeFieldIds(
+    rawFields
+      .map((raw, index) => repairField(raw, index, log))
+      .filter((field): field is Record<string, unknown> => field !== null),
+    repairs
+  );
+
+  // Branch targets can only be checked once every id is final
+  fields.forEach((field, index) => {
+    if (!field.branches) return;
+    const later = new Set(fields.slice(index).filter(other => other.type === 'page_break').map(other => other.id));
+    const branches = field.branches.filter(branch => {
+      if (branch.goTo === SUBMIT_TARGET || later.has(branch.goTo)) return true;
+      repairs.push(`Field "${field.id}": dropped branch to unknown page "${branch.goTo}"`);
+      return false;
+    });
+    field.branches = branches.length > 0 ? branches : undefined;
+  });
+
+  return {
+    type: 'form',
+    schemaVersion: input.schemaVersion,
+    title: optionalString(input.title),
+    description: optionalString(input.description),
+    fields,
+  };
+}
+
+/**
+ * Drops validation patterns that are too slow on long answers, including in
+ * group sub-fields. Timing depends on the machine, so unlike the checks done
+ * while parsing this runs once, when a form is generated or saved by hand.
+ */
+export function dropSlowPatterns(schema: FormSchema): { schema: FormSchema; warnings: string[] } {
+  const warnings: string[] = [];
+  const vet = (field: FormField): FormField => {
+    const fields = field.fields?.map(vet);
+    const pattern = field.validation?.pattern;
+    if (!pattern || !isSlowPattern(pattern)) {
+      return fields ? { ...field, fields } : field;
+    }
+    warnings.push(`Field "${field.id}": dropped validation pattern ${JSON.stringify(pattern)} (too slow on long answers)`);
+    const validation = { ...field.validation };
+    delete validation.pattern;
+    return {
+      ...field,
+      ...(fields ? { fields } : {}),
+      validation: Object.keys(validation).length > 0 ? validation : undefined,
+    };
+  };
+  const fields = schema.fields.map(vet);
+  return { schema: warnings.length > 0 ? { ...schema, fields } : schema, warnings };
+}
+
+export function safeParseFormSchema(input: unknown): SafeParseResult<FormSchema> {
+  if (!isRecord(input)) {
+    return { success: false, error: new FormSchemaError('Form schema must be an object') };
+  }
+  if (input.type !== undefined && input.type !== 'form') {
+    return { success: false, error: new FormSchemaError(`Expected a form schema, got "${String(input.type)}"`) };
+  }
+
+  const log: RepairLog = { repairs: [], warnings: [] };
+  const { repairs, warnings } = log;
+  let migrated: Record<string, unknown>;
+  try {
+    const { schema, fromVersion } = migrateFormSchema(input);
+    if (fromVersion < CURRENT_SCHEMA_VERSION) {
+      repairs.push(`Migrated schema from version ${fromVersion} to ${CURRENT_SCHEMA_VERSION}`);
+    }
+    migrated = schema;
+  } catch (error) {
+    if (error instanceof FormSchemaError) return { success: false, error };
+    throw error;
+  }
+
+  const result = formSchemaSchema.safeParse(repairFormInput(migrated, log));
+  if (!result.success) {
+    const issues = formatIssues(result.error);
+    return { success: false, error: new FormSchemaError('Invalid form schema', issues) };
+  }
+  if (result.data.fields.length === 0) {
+    return { success: false, error: new FormSchemaError('Form schema has no usable fields', repairs) };
+  }
+
+  return { success: true, data: result.data, repairs, warnings };
+}
+
+export function parseFormSchema(input: unknown): FormSchema {
+  const result = safeParseFormSchema(input);
+  if (!result.success) throw result.error;
+  return result.data;
+}
+
+/**
+ * Validates the tool output of the generate-form function, which is either
+ * a form schema or a clarification request.
+ */
+export function safeParseGenerationResult(input: unknown): SafeParseResult<GenerationResult> {
+  if (isRecord(input) && input.type === 'clarification') {
+    const result = clarificationRequestSchema.safeParse(input);
+    if (!result.success) {
+      const issues = formatIssues(result.error);
+      return { success: false, error: new FormSchemaError('Invalid clarification request', issues) };
+    }
+    return { success: true, data: result.data, repairs: [], warnings: [] };
+  }
+  return safeParseFormSchema(input);
+}
@@ -0,0 +1,369 @@
+import { z } from "zod";
+import { conditionFieldIds, conditionSchema } from "./conditions.ts";
+import { expressionFieldIds, isComputedType, isValidExpression, parseExpression } from "./computed.ts";
+import { CURRENT_SCHEMA_VERSION } from "./migrations.ts";
+import { isRepeatableType } from "./groups.ts";
+import { DISPLAY_FIELD_TYPES, SUBMIT_TARGET } from "./pages.ts";
+import { checkPattern } from "./patterns.ts";
+import { MAX_RATING, MAX_SCALE_POINTS, isRangeType, resolveRange, scalePointCount } from "./range.ts";
+import { isTemporalType, isValidTemporalBound } from "./temporal.ts";
+
+// Shared by the React app and the edge functions, so this module must not
+// depend on anything outside of zod (no browser or Deno globals).
+
+export const FIELD_TYPES = [
+  'text', 'email', 'tel', 'number', 'select', 'textarea',
+  'date', 'time', 'datetime',
+  'radio', 'checkbox', 'multiselect',
+  'file',
+  'rating', 'scale', 'slider',
+  'section', 'page_break',
+  'group',
+  'calculated', 'hidden',
+] as const;
+
+export type FieldType = typeof FIELD_TYPES[number];
+
+// Types that pick from `options`; multiselect answers are string arrays
+export const CHOICE_FIELD_TYPES: readonly FieldType[] = ['select', 'radio', 'multiselect'];
+
+export const fieldValidationSchema = z.object({
+  pattern: z.string().optional(),
+  message: z.string().optional(),
+  // Earliest/latest value for date, time and datetime fields, in the field's
+  // own format or one of the relative keywords "today" and "now"
+  min: z.string().optional(),
+  max: z.string().optional(),
+  // Number of options a multiselect answer must/may contain
+  minSelected: z.number().int().nonnegative().optional(),
+  maxSelected: z.number().int().positive().optional(),
+  // Constraints on file fields: MIME types such as "application/pdf" or
+  // "image/*", the size of each file and how many files may be attached
+  accept: z.array(z.string().min(1)).optional(),
+  maxFileSizeMb: z.number().positive().optional(),
+  maxFiles: z.number().int().positive().optional(),
+  // Number of entries a repeatable group must/may have
+  minItems: z.number().int().nonnegative().optional(),
+  maxItems: z.number().int().positive().optional(),
+});
+
+// Bounds and end labels for rating, scale (Likert/NPS) and slider fields.
+// Omitted values fall back to per-type defaults, see resolveRange().
+export const fieldRangeSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+  step: z.number().positive().optional(),
+  minLabel: z.string().optional(),
+  maxLabel: z.string().optional(),
+});
+
+// Jump taken when leaving the page before a page_break, see pages.ts
+export const pageBranchSchema = z.object({
+  when: conditionSchema,
+  // id of a later page_break, or "submit" to end the form
+  goTo: z.string().min(1),
+});
+
+const fieldShape = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  type: z.enum(FIELD_TYPES),
+  // Help text under the label; the body text of sections and page breaks
+  description: z.string().optional(),
+  placeholder: z.string().optional(),
+  required: z.boolean(),
+  validation: fieldValidationSchema.optional(),
+  options: z.array(z.string()).optional(),
+  range: fieldRangeSchema.optional(),
+  // Only show (and validate/save) the field when this rule holds
+  visibleIf: conditionSchema.optional(),
+  branches: z.array(pageBranchSchema).optional(),
+  // Formula of a calculated field over earlier answers, see computed.ts
+  expression: z.string().optional(),
+  // Hidden fields: URL query parameter to read, and the constant used when
+  // it is absent
+  param: z.string().optional(),
+  defaultValue: z.string().optional(),
+});
+
+function refineField(field: z.infer<typeof fieldShape>, ctx: z.RefinementCtx) {
+  if (field.branches && field.type !== 'page_break') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['branches'],
+      message: `branches only apply to page_break elements ("${field.id}")`,
+    });
+  }
+  if (field.required && (DISPLAY_FIELD_TYPES.includes(field.type) || isComputedType(field.type))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['required'],
+      message: `${field.type} "${field.id}" can't be required`,
+    });
+  }
+  if (field.type === 'calculated' && !(field.expression && isValidExpression(field.expression))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['expression'],
+      message: `Calculated field "${field.id}" needs a valid expression`,
+    });
+  }
+  if (field.expression !== undefined && field.type !== 'calculated') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['expression'],
+      message: `expression only applies to calculated fields ("${field.id}")`,
+    });
+  }
+  if (field.type === 'hidden' && !field.param && field.defaultValue === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['param'],
+      message: `Hidden field "${field.id}" needs a param or a defaultValue`,
+    });
+  }
+  if ((field.param !== undefined || field.defaultValue !== undefined) && field.type !== 'hidden') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['param'],
+      message: `param/defaultValue only apply to hidden fields ("${field.id}")`,
+    });
+  }
+  const patternCheck = field.validation?.pattern ? checkPattern(field.validation.pattern) : undefined;
+  if (patternCheck && !patternCheck.safe) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['validation', 'pattern'],
+      message: `Unsafe validation pattern on "${field.id}": ${patternCheck.reason}`,
+    });
+  }
+  if (CHOICE_FIELD_TYPES.includes(field.type) && !field.options?.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['options'],
+      message: `Field "${field.id}" of type ${field.type} has no options`,
+    });
+  }
+  const { minSelected, maxSelected } = field.validation ?? {};
+  if ((minSelected !== undefined || maxSelected !== undefined) && field.type !== 'multiselect') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['validation'],
+      message: `minSelected/maxSelected only apply to multiselect fields ("${field.id}")`,
+    });
+  }
+  if (minSelected !== undefined && maxSelected !== undefined && minSelected > maxSelected) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['validation', 'minSelected'],
+      message: `minSelected is greater than maxSelected on "${field.id}"`,
+    });
+  }
+  const { accept, maxFileSizeMb, maxFiles } = field.validation ?? {};
+  if ((accept !== undefined || maxFileSizeMb !== undefined || maxFiles !== undefined) && field.type !== 'file') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['validation'],
+      message: `accept/maxFileSizeMb/maxFiles only apply to file fields ("${field.id}")`,
+    });
+  }
+  if (field.range) {
+    const { min, max } = field.range;
+    if (!isRangeType(field.type)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['range'],
+        message: `range only applies to rating, scale and slider fields ("${field.id}")`,
+      });
+    } else if (min !== undefined && max !== undefined && min >= max) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['range', 'min'],
+        message: `range.min must be less than range.max on "${field.id}"`,
+      });
+    } else if (field.type === 'rating' && max !== undefined && (!Number.isInteger(max) || max > MAX_RATING)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['range', 'max'],
+        message: `Rating "${field.id}" must have at most ${MAX_RATING} stars`,
+      });
+    } else if (field.type === 'scale' && scalePointCount(resolveRange(field)) > MAX_SCALE_POINTS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['range'],
+        message: `Scale "${field.id}" has more than ${MAX_SCALE_POINTS} points`,
+      });
+    }
+  }
+  for (const edge of ['min', 'max'] as const) {
+    const bound = field.validation?.[edge];
+    if (bound === undefined) continue;
+    if (!isTemporalType(field.type) || !isValidTemporalBound(field.type, bound)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['validation', edge],
+        message: `Invalid ${edge} "${bound}" for ${field.type} field "${field.id}"`,
+      });
+    }
+  }
+  const { minItems, maxItems } = field.validation ?? {};
+  if ((minItems !== undefined || maxItems !== undefined) && field.type !== 'group') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['validation'],
+      message: `minItems/maxItems only apply to group fields ("${field.id}")`,
+    });
+  }
+  if (minItems !== undefined && maxItems !== undefined && minItems > maxItems) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['validation', 'minItems'],
+      message: `minItems is greater than maxItems on "${field.id}"`,
+    });
+  }
+}
+
+// A field inside a repeatable group; groups don't nest and hold no layout elements
+export const subFieldSchema = fieldShape.superRefine((field, ctx) => {
+  refineField(field, ctx);
+  if (!isRepeatableType(field.type)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['type'],
+      message: `A group can't contain ${field.type} "${field.id}"`,
+    });
+  }
+});
+
+export const formFieldSchema = fieldShape.extend({
+  // Sub-fields repeated for every entry of a group
+  fields: z.array(subFieldSchema).optional(),
+}).superRefine((field, ctx) => {
+  refineField(field, ctx);
+  if (field.type !== 'group') {
+    if (field.fields) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['fields'],
+        message: `Only group fields have sub-fields ("${field.id}")`,
+      });
+    }
+    return;
+  }
+  if (!field.fields?.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['fields'],
+      message: `Group "${field.id}" has no sub-fields`,
+    });
+  }
+  // Sub-field ids and conditions are scoped to a single entry of the group
+  const seen = new Set<string>();
+  field.fields?.forEach((subField, index) => {
+    if (seen.has(subField.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['fields', index, 'id'],
+        message: `Duplicate sub-field id "${subField.id}" in group "${field.id}"`,
+      });
+    }
+    const unknown = subField.visibleIf ? conditionFieldIds(subField.visibleIf).filter(id => !seen.has(id)) : [];
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['fields', index, 'visibleIf'],
+        message: `visibleIf of "${subField.id}" must refer to earlier fields of the group, not ${unknown.join(', ')}`,
+      });
+    }
+    seen.add(subField.id);
+  });
+});
+
+export const formSchemaSchema = z.object({
+  type: z.literal('form'),
+  schemaVersion: z.literal(CURRENT_SCHEMA_VERSION),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  fields: z.array(formFieldSchema),
+}).superRefine((schema, ctx) => {
+  const laterPageBreaks = (index: number) => schema.fields
+    .slice(index)
+    .filter(field => field.type === 'page_break')
+    .map(field => field.id);
+  const seen = new Set<string>();
+  schema.fields.forEach((field, index) => {
+    if (seen.has(field.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['fields', index, 'id'],
+        message: `Duplicate field id "${field.id}"`,
+      });
+    }
+    // Referencing only earlier fields rules out cycles between conditions
+    const unknown = field.visibleIf ? conditionFieldIds(field.visibleIf).filter(id => !seen.has(id)) : [];
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['fields', index, 'visibleIf'],
+        message: `visibleIf of "${field.id}" must refer to earlier fields, not ${unknown.join(', ')}`,
+      });
+    }
+    const inputs = field.expression && isValidExpression(field.expression)
+      ? expressionFieldIds(parseExpression(field.expression)).filter(id => !seen.has(id))
+      : [];
+    if (inputs.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['fields', index, 'expression'],
+        message: `expression of "${field.id}" must refer to earlier fields, not ${inputs.join(', ')}`,
+      });
+    }
+    field.branches?.forEach((branch, branchIndex) => {
+      const refs = conditionFieldIds(branch.when).filter(id => !seen.has(id));
+      if (refs.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['fields', index, 'branches', branchIndex, 'when'],
+          message: `Branch of "${field.id}" must refer to earlier fields, not ${refs.join(', ')}`,
+        });
+      }
+      if (branch.goTo !== SUBMIT_TARGET && !laterPageBreaks(index).includes(branch.goTo)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['fields', index, 'branches', branchIndex, 'goTo'],
+          message: `Branch of "${field.id}" must go to a later page_break or "${SUBMIT_TARGET}", not "${branch.goTo}"`,
+        });
+      }
+    });
+    seen.add(field.id);
+  });
+});
+
+// Most suggested answers offered for one clarification question
+export const MAX_CLARIFICATION_CHOICES = 6;
+
+export const clarificationQuestionSchema = z.object({
+  question: z.string().min(1),
+  // Suggested answers shown as options; the user may still write their own
+  choices: z.array(z.string().min(1)).max(MAX_CLARIFICATION_CHOICES).optional(),
+});
+
+export const clarificationRequestSchema = z.object({
+  type: z.literal('clarification'),
+  contradiction: z.string().default(''),
+  // Plain strings are questions without suggested answers
+  questions: z.array(z.union([
+    z.string().min(1).transform(question => ({ question })),
+    clarificationQuestionSchema,
+  ])).min(1),
+});
+
+export type FieldValidation = z.infer<typeof fieldValidationSchema>;
+export type FieldRange = z.infer<typeof fieldRangeSchema>;
+export type PageBranch = z.infer<typeof pageBranchSchema>;
+export type FormField = z.infer<typeof formFieldSchema>;
+export type GroupSubField = z.infer<typeof subFieldSchema>;
+export type FormSchema = z.infer<typeof formSchemaSchema>;
+export type ClarificationQuestion = z.infer<typeof clarificationQuestionSchema>;
+export type ClarificationRequest = z.infer<typeof clarificationRequestSchema>;
+export type GenerationResult = FormSchema | ClarificationRequest;
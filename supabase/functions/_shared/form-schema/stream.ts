@@ -0,0 +1,113 @@
+import { safeParseAIOutput, type AIOutputOptions } from "./ai-output.ts";
+import { CURRENT_SCHEMA_VERSION } from "./migrations.ts";
+import type { FormSchema } from "./schema.ts";
+
+/**
+ * What generate-form sends, one JSON object per line, when asked to stream:
+ * previews of the form as the model writes it, a note when invalid output
+ * is sent back to the model (the preview starts over), and finally the
+ * result or an error.
+ */
+export type GenerationStreamEvent =
+  | { type: 'progress'; schema: FormSchema }
+  | { type: 'retry'; attempt: number; problems: string[] }
+  // Same body as the non-streaming response
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; status: number; error: string; issues?: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses the part of a JSON object or array that has been written so far,
+ * dropping the value still being written and closing whatever is left
+ * open. `complete` is whether the outermost value has been closed. Text
+ * before the value (such as a ```json fence) is skipped.
+ */
+export function parsePartialJson(text: string): { value: unknown; complete: boolean } | undefined {
+  const start = text.search(/[{[]/);
+  if (start < 0) return undefined;
+
+  // Closing brackets still owed, innermost last
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  // Where the text can be cut so that everything before it is complete
+  let cut = start;
+  let cutClosers = '';
+  let complete = false;
+
+  for (let i = start; i < text.length && !complete; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      closers.push(char === '{' ? '}' : ']');
+      cut = i + 1;
+      cutClosers = closers.join('');
+    } else if (char === '}' || char === ']') {
+      closers.pop();
+      cut = i + 1;
+      cutClosers = closers.join('');
+      complete = closers.length === 0;
+    } else if (char === ',') {
+      cut = i;
+      cutClosers = closers.join('');
+    }
+  }
+  if (cut === start) return undefined;
+
+  try {
+    const closing = cutClosers.split('').reverse().join('');
+    return { value: JSON.parse(text.slice(start, cut) + closing), complete };
+  } catch {
+    return undefined;
+  }
+}
+
+export interface PartialForm {
+  title?: string;
+  description?: string;
+  // Raw fields the model has finished writing
+  fields: unknown[];
+}
+
+// The finished parts of a form the model is still writing; undefined for clarification requests
+export function readPartialForm(text: string): PartialForm | undefined {
+  const partial = parsePartialJson(text);
+  if (!partial || !isRecord(partial.value) || partial.value.type === 'clarification') return undefined;
+
+  const { title, description, fields } = partial.value;
+  const written = Array.isArray(fields) ? fields : [];
+  return {
+    title: typeof title === 'string' ? title : undefined,
+    description: typeof description === 'string' ? description : undefined,
+    // Until the output is closed the last field may still be missing properties
+    fields: partial.complete ? written : written.slice(0, -1),
+  };
+}
+
+/**
+ * Turns a partial form into a schema the preview can render, repaired the
+ * same way as the final output. The title comes first, so a form without
+ * any fields yet is a valid preview here.
+ */
+export function previewPartialForm(partial: PartialForm, options: AIOutputOptions = {}): FormSchema | undefined {
+  const form = {
+    type: 'form',
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    title: partial.title,
+    description: partial.description,
+  } as const;
+  if (partial.fields.length === 0) {
+    return { ...form, fields: [] };
+  }
+  const parsed = safeParseAIOutput({ ...form, fields: partial.fields }, options);
+  return parsed.success && parsed.data.type === 'form' ? parsed.data : undefined;
+}
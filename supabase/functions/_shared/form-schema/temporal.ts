@@ -0,0 +1,89 @@
+import type { FieldType } from "./schema.ts";
+
+// Date/time values are stored as local wall-clock strings so they compare
+// lexicographically: date "YYYY-MM-DD", time "HH:MM", datetime "YYYY-MM-DDTHH:MM".
+
+export type TemporalFieldType = Extract<FieldType, 'date' | 'time' | 'datetime'>;
+
+export const TEMPORAL_FIELD_TYPES: readonly TemporalFieldType[] = ['date', 'time', 'datetime'];
+
+const FORMATS: Record<TemporalFieldType, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}$/,
+  datetime: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/,
+};
+
+export const isTemporalType = (type: string): type is TemporalFieldType =>
+  (TEMPORAL_FIELD_TYPES as readonly string[]).includes(type);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export function formatTemporal(type: TemporalFieldType, date: Date): string {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  if (type === 'date') return day;
+  if (type === 'time') return time;
+  return `${day}T${time}`;
+}
+
+function isRealDate(day: string): boolean {
+  const [y, m, d] = day.split('-').map(Number);
+  const date = new Date(y, m - 1, d);
+  return date.getFullYear() === y && date.getMonth() === m - 1 && date.getDate() === d;
+}
+
+function isRealTime(time: string): boolean {
+  const [h, m] = time.split(':').map(Number);
+  return h < 24 && m < 60;
+}
+
+export function isValidTemporal(type: TemporalFieldType, value: string): boolean {
+  if (!FORMATS[type].test(value)) return false;
+  if (type === 'date') return isRealDate(value);
+  if (type === 'time') return isRealTime(value);
+  const [day, time] = value.split('T');
+  return isRealDate(day) && isRealTime(time);
+}
+
+// UTC offsets in use range from -12:00 to +14:00
+const MAX_UTC_OFFSET_MINUTES = 14 * 60;
+
+/**
+ * The respondent's clock, given their UTC offset in minutes (as sent by the
+ * browser, e.g. -300 for UTC-5), as a Date whose local fields read their
+ * wall-clock time wherever this runs. null when the offset isn't valid.
+ */
+export function respondentClock(utcOffsetMinutes: unknown, now = new Date()): Date | null {
+  if (typeof utcOffsetMinutes !== 'number' || !Number.isInteger(utcOffsetMinutes)
+    || Math.abs(utcOffsetMinutes) > MAX_UTC_OFFSET_MINUTES) {
+    return null;
+  }
+  return new Date(now.getTime() + (utcOffsetMinutes + now.getTimezoneOffset()) * 60000);
+}
+
+/**
+ * Resolves a min/max bound from the schema. Besides literal values, "today"
+ * (date/datetime) and "now" (any temporal type) are relative to `now`, the
+ * respondent's wall clock; a "today" max on a datetime field includes the
+ * whole day. With `now` null, relative bounds resolve to undefined (no bound).
+ */
+export function resolveTemporalBound(
+  type: TemporalFieldType,
+  bound: string | undefined,
+  edge: 'min' | 'max',
+  now: Date | null = new Date()
+): string | undefined {
+  if (!bound) return undefined;
+  if (bound === 'now') return now ? formatTemporal(type, now) : undefined;
+  if (bound === 'today' && type !== 'time') {
+    if (!now) return undefined;
+    const today = formatTemporal('date', now);
+    if (type === 'date') return today;
+    return `${today}T${edge === 'min' ? '00:00' : '23:59'}`;
+  }
+  return isValidTemporal(type, bound) ? bound : undefined;
+}
+
+export function isValidTemporalBound(type: TemporalFieldType, bound: string): boolean {
+  return resolveTemporalBound(type, bound, 'min') !== undefined;
+}
@@ -0,0 +1,218 @@
+import { getVisibleFields } from "./conditions.ts";
+import { isComputedType } from "./computed.ts";
+import { fileConstraintError, maxFileCount, type StoredFile } from "./files.ts";
+import { matchesPattern } from "./patterns.ts";
+import { isInRange, isRangeType, resolveRange } from "./range.ts";
+import type { FieldType, FormField } from "./schema.ts";
+import { isTemporalType, isValidTemporal, resolveTemporalBound } from "./temporal.ts";
+import {
+  isEmptyValue,
+  isFileRefList,
+  isGroupItems,
+  type FormData,
+  type FormValue,
+  type GroupItem,
+} from "./values.ts";
+
+export interface ValidationOptions {
+  // When set, attachments must live in this form's upload folder
+  formId?: string;
+  // When set, attachments are checked against what storage recorded for
+  // them, by path, rather than the size and type the browser claimed; one
+  // missing from it was never uploaded
+  uploads?: Map<string, StoredFile>;
+  // The respondent's wall clock for "now" and "today" bounds (see
+  // respondentClock); defaults to this machine's clock, null skips them
+  now?: Date | null;
+}
+
+const TEMPORAL_LABELS = {
+  date: 'date',
+  time: 'time',
+  datetime: 'date and time',
+};
+
+const formatBound = (bound: string) => bound.replace('T', ' ');
+
+// Whether an answer has the JSON shape the field type stores
+export function hasAnswerShape(type: FieldType, answer: unknown): answer is FormValue {
+  switch (type) {
+    case 'checkbox':
+      return typeof answer === 'boolean';
+    case 'multiselect':
+      return Array.isArray(answer) && answer.every(item => typeof item === 'string');
+    case 'file':
+      return isFileRefList(answer);
+    case 'group':
+      return isGroupItems(answer);
+    case 'rating':
+    case 'scale':
+    case 'slider':
+    case 'calculated':
+      return typeof answer === 'number';
+    default:
+      return typeof answer === 'string';
+  }
+}
+
+/**
+ * Checks one answer against its field. Used by DynamicForm as the respondent
+ * moves through the form and again by submit-form, so both report the same
+ * messages. Returns null when the answer is acceptable.
+ */
+export function validateAnswer(
+  field: FormField,
+  answer: FormValue | undefined,
+  options: ValidationOptions = {}
+): string | null {
+  // Filled in by the form itself and recomputed on the server
+  if (isComputedType(field.type)) return null;
+
+  if (field.required && isEmptyValue(answer)) {
+    return field.type === 'checkbox'
+      ? `You must check "${field.label}"`
+      : `${field.label} is required`;
+  }
+  if (answer === undefined || isEmptyValue(answer)) return null;
+
+  if (!hasAnswerShape(field.type, answer)) {
+    return `Invalid value for ${field.label}`;
+  }
+
+  if (field.type === 'group' && isGroupItems(answer)) {
+    const items: GroupItem[] = answer;
+    const { minItems, maxItems } = field.validation || {};
+    if (minItems && items.length < minItems) {
+      return `Add at least ${minItems} entries to ${field.label}`;
+    }
+    if (maxItems && items.length > maxItems) {
+      return `Add at most ${maxItems} entries to ${field.label}`;
+    }
+    // Sub-fields are validated per entry, skipping those hidden in that entry
+    for (const [index, item] of items.entries()) {
+      for (const subField of getVisibleFields(field.fields || [], item)) {
+        const error = validateAnswer(subField, item[subField.id], options);
+        if (error) return `Entry ${index + 1}: ${error}`;
+      }
+    }
+    return null;
+  }
+
+  if (field.type === 'file' && isFileRefList(answer)) {
+    const maxFiles = maxFileCount(field);
+    if (answer.length > maxFiles) {
+      return `Attach at most ${maxFiles} file${maxFiles === 1 ? '' : 's'}`;
+    }
+    for (const file of answer) {
+      if (options.formId && !file.path.startsWith(`${options.formId}/`)) {
+        return `Invalid attachment for ${field.label}`;
+      }
+      const stored = options.uploads ? options.uploads.get(file.path) : file;
+      if (!stored) return `${file.name} was not uploaded`;
+      const error = fileConstraintError(field, { name: file.name, size: stored.size, type: stored.type });
+      if (error) return error;
+    }
+    return null;
+  }
+
+  if (isRangeType(field.type)) {
+    if (typeof answer !== 'number' || !isInRange(answer, resolveRange(field))) {
+      return `Invalid value for ${field.label}`;
+    }
+    return null;
+  }
+
+  if (Array.isArray(answer)) {
+    if (answer.some(option => typeof option !== 'string' || !field.options?.includes(option))) {
+      return `Invalid selection for ${field.label}`;
+    }
+    const { minSelected, maxSelected } = field.validation || {};
+    if (minSelected && answer.length < minSelected) {
+      return `Select at least ${minSelected} options`;
+    }
+    if (maxSelected && answer.length > maxSelected) {
+      return `Select at most ${maxSelected} options`;
+    }
+    return null;
+  }
+
+  if (typeof answer !== 'string') {
+    return null;
+  }
+  const value = answer;
+
+  if ((field.type === 'select' || field.type === 'radio') && !field.options?.includes(value)) {
+    return `Invalid selection for ${field.label}`;
+  }
+
+  if (field.validation?.pattern && !matchesPattern(field.validation.pattern, value)) {
+    return field.validation.message || `Invalid ${field.label}`;
+  }
+
+  // Built-in validation for common types
+  if (field.type === 'email') {
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(value)) {
+      return 'Invalid email address';
+    }
+  }
+
+  if (field.type === 'tel') {
+    const phoneRegex = /^[\d\s\-+()]+$/;
+    if (!phoneRegex.test(value)) {
+      return 'Invalid phone number';
+    }
+  }
+
+  if (field.type === 'number' && !Number.isFinite(Number(value))) {
+    return 'Please enter a valid number';
+  }
+
+  if (isTemporalType(field.type)) {
+    if (!isValidTemporal(field.type, value)) {
+      return `Please enter a valid ${TEMPORAL_LABELS[field.type]}`;
+    }
+    const min = resolveTemporalBound(field.type, field.validation?.min, 'min', options.now);
+    if (min && value < min) {
+      return field.validation?.message || `${field.label} must be on or after ${formatBound(min)}`;
+    }
+    const max = resolveTemporalBound(field.type, field.validation?.max, 'max', options.now);
+    if (max && value > max) {
+      return field.validation?.message || `${field.label} must be on or before ${formatBound(max)}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Keeps only answers to known fields with the shape their field stores,
+ * including within group entries, so untrusted input can be treated as
+ * FormData. A dropped answer counts as not given.
+ */
+export function dropMalformedAnswers(fields: FormField[], data: Record<string, unknown>): FormData {
+  const byId = new Map(fields.map(field => [field.id, field]));
+  const answers: FormData = {};
+  for (const [id, answer] of Object.entries(data)) {
+    const field = byId.get(id);
+    if (!field || !hasAnswerShape(field.type, answer)) continue;
+    answers[id] = field.type === 'group' && isGroupItems(answer)
+      ? answer.map(item => dropMalformedAnswers(field.fields || [], item))
+      : answer;
+  }
+  return answers;
+}
+
+// Errors keyed by field id; empty when every answer is acceptable
+export function validateAnswers(
+  fields: FormField[],
+  data: FormData,
+  options: ValidationOptions = {}
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const field of fields) {
+    const error = validateAnswer(field, data[field.id], options);
+    if (error) errors[field.id] = error;
+  }
+  return errors;
+}
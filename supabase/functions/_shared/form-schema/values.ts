@@ -0,0 +1,51 @@
+// Reference to an uploaded attachment; `path` is relative to the form uploads bucket
+export type FileRef = {
+  path: string;
+  name: string;
+  size: number;
+  type: string;
+};
+
+// Answers to one entry of a repeatable group, keyed by sub-field id
+export type GroupItem = { [id: string]: FormValue };
+
+// Answers as stored in form_submissions.form_data, keyed by field id
+export type FormValue = string | number | string[] | boolean | FileRef[] | GroupItem[];
+
+export type FormData = Record<string, FormValue>;
+
+// Takes any JSON, as answers from a request may have any shape; objects
+// and other unexpected values count as given (and are then rejected)
+export function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'boolean') return !value;
+  if (typeof value === 'number') return !Number.isFinite(value);
+  if (typeof value === 'string') return !value.trim();
+  return false;
+}
+
+export const isFileRef = (value: unknown): value is FileRef =>
+  typeof value === 'object' && value !== null
+  && typeof (value as FileRef).path === 'string'
+  && typeof (value as FileRef).name === 'string'
+  && typeof (value as FileRef).size === 'number'
+  && typeof (value as FileRef).type === 'string';
+
+export const isFileRefList = (value: unknown): value is FileRef[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isFileRef);
+
+export const isGroupItem = (value: unknown): value is GroupItem =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !isFileRef(value);
+
+export const isGroupItems = (value: unknown): value is GroupItem[] =>
+  Array.isArray(value) && value.every(isGroupItem);
+
+// Every attachment referenced by a submission's answers, including group entries
+export function collectFileRefs(formData: unknown): FileRef[] {
+  if (!formData || typeof formData !== 'object' || Array.isArray(formData)) return [];
+  return Object.values(formData).flatMap(value => {
+    if (isFileRefList(value)) return value;
+    return isGroupItems(value) ? value.flatMap(collectFileRefs) : [];
+  });
+}
@@ -0,0 +1,162 @@
+import { extractText, getDocumentProxy } from "unpdf";
+import { sourceDocumentKind, type SourceDocument, type SourceDocumentKind } from "../_shared/form-schema/index.ts";
+
+// A document whose text couldn't be read; reported to the user as is
+export class DocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentError';
+  }
+}
+
+const decodeBase64 = (content: string): Uint8Array =>
+  Uint8Array.from(atob(content), char => char.charCodeAt(0));
+
+const decodeText = (bytes: Uint8Array): string =>
+  new TextDecoder().decode(bytes).replace(/^\uFEFF/, '');
+
+// The text of even a long Word document is a few MB of XML; a zip entry
+// inflating to more than this is treated as a zip bomb
+const MAX_ZIP_ENTRY_SIZE = 20 * 1024 * 1024;
+
+const TOO_LARGE = 'This Word document is too large to read. Copy the part with the questions into a new document and try again.';
+
+// Inflates deflated zip data, giving up as soon as it grows past `limit`
+// bytes, since the size an archive declares for an entry can be a lie
+async function inflateRaw(bytes: Uint8Array, limit: number): Promise<Uint8Array> {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      throw new DocumentError(TOO_LARGE);
+    }
+    chunks.push(value);
+  }
+
+  const inflated = new Uint8Array(size);
+  let position = 0;
+  for (const chunk of chunks) {
+    inflated.set(chunk, position);
+    position += chunk.length;
+  }
+  return inflated;
+}
+
+/**
+ * Reads one file out of a zip archive (a .docx is one), using the central
+ * directory at the end of the archive to find it. Throws DocumentError for
+ * entries larger than MAX_ZIP_ENTRY_SIZE once inflated.
+ */
+async function readZipEntry(bytes: Uint8Array, path: string): Promise<Uint8Array | undefined> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The end of central directory record is at least 22 bytes, followed by a comment
+  let end = -1;
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) return undefined;
+
+  const entries = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < entries && view.getUint32(offset, true) === 0x02014b50; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const headerOffset = view.getUint32(offset + 42, true);
+    const name = decodeText(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (name === path) {
+      if (uncompressedSize > MAX_ZIP_ENTRY_SIZE) throw new DocumentError(TOO_LARGE);
+      // The local header repeats the name and may have an extra field of its own length
+      const dataStart = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRaw(data, MAX_ZIP_ENTRY_SIZE);
+      return undefined;
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return undefined;
+}
+
+// A numeric character reference, or U+FFFD when it is out of range (which
+// String.fromCodePoint would throw on)
+const fromCodePoint = (code: number): string =>
+  code <= 0x10ffff ? String.fromCodePoint(code) : '\uFFFD';
+
+const decodeXmlEntities = (text: string): string =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => fromCodePoint(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// The text of a Word document, one paragraph or table cell per line.
+// Legacy form fields are written the way they look on paper, so the AI
+// recognises them as blanks and checkboxes.
+async function readDocx(bytes: Uint8Array): Promise<string> {
+  // Offsets in a damaged archive can point past its end
+  const xml = await readZipEntry(bytes, 'word/document.xml').catch(error => {
+    if (error instanceof DocumentError) throw error;
+    return undefined;
+  });
+  if (!xml) {
+    throw new DocumentError('This Word document could not be opened. Save it as .docx and try again.');
+  }
+  const text = decodeText(xml)
+    .replace(/<w:checkBox\b/g, '☐<w:checkBox')
+    .replace(/<w:textInput\b/g, '__________<w:textInput')
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:(?:br|cr)\b[^>]*\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<w:instrText\b[^>]*>[^<]*<\/w:instrText>/g, '')
+    .replace(/<[^>]+>/g, '');
+  return decodeXmlEntities(text);
+}
+
+async function readPdf(bytes: Uint8Array): Promise<string> {
+  try {
+    const pdf = await getDocumentProxy(bytes);
+    const { text } = await extractText(pdf, { mergePages: true });
+    return text;
+  } catch (error) {
+    console.error('Error reading PDF:', error);
+    throw new DocumentError('This PDF could not be opened. It may be damaged or password protected.');
+  }
+}
+
+/**
+ * Extracts the plain text of an uploaded document. Scanned documents have
+ * no text to extract and are rejected, as there is no OCR.
+ */
+export async function extractDocumentText(document: SourceDocument): Promise<{ kind: SourceDocumentKind; text: string }> {
+  const kind = sourceDocumentKind(document.name);
+  if (!kind) {
+    throw new DocumentError(`${document.name} is not a text, CSV, Word or PDF file`);
+  }
+
+  const bytes = decodeBase64(document.content);
+  const text = kind === 'docx' ? await readDocx(bytes)
+    : kind === 'pdf' ? await readPdf(bytes)
+    : decodeText(bytes);
+
+  const cleaned = text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  if (!cleaned) {
+    throw new DocumentError(`No text was found in ${document.name}. Scanned documents aren't supported; try a text-based PDF or describe the form instead.`);
+  }
+  return { kind, text: cleaned };
+}
@@ -1,43 +1,337 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "@supabase/supabase-js";
+import {
+  AIOutputError,
+  AIProviderError,
+  getAIProvider,
+  type ChatMessage,
+  type TokenUsage,
+  type ToolCallResult,
+  type ToolDefinition,
+} from "../_shared/ai/index.ts";
+import {
+  COMPARISON_OPERATORS,
+  CURRENT_SCHEMA_VERSION,
+  FIELD_ACTIONS,
+  MAX_CLARIFICATION_ROUNDS,
+  applyFieldPatch,
+  clarificationHistorySchema,
+  dropSlowPatterns,
+  fieldActionsFor,
+  formatClarificationAnswers,
+  formatSourceDocument,
+  previewPartialForm,
+  readPartialForm,
+  replaceField,
+  safeParseAIOutput,
+  safeParseFormSchema,
+  sourceDocumentSchema,
+  type FieldAction,
+  type GenerationStreamEvent,
+} from "../_shared/form-schema/index.ts";
+import { DocumentError, extractDocumentText } from "./documents.ts";
+import { getQuota, reserveGeneration } from "./usage.ts";
+
+// Calls to the model per request, counting retries after invalid output
+const MAX_GENERATION_ATTEMPTS = 3;
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+// JSON Schema of a field, as the model writes it
+const FIELD_PARAMETERS = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    label: { type: 'string' },
+    type: { 
+      type: 'string',
+      enum: [
+        'text', 'email', 'tel', 'number', 'select', 'textarea',
+        'date', 'time', 'datetime', 'radio', 'checkbox', 'multiselect', 'file',
+        'rating', 'scale', 'slider', 'section', 'page_break', 'group',
+        'calculated', 'hidden'
+      ]
+    },
+    description: { type: 'string' },
+    placeholder: { type: 'string' },
+    required: { type: 'boolean' },
+    validation: {
+      type: 'object',
+      properties: {
+        pattern: { type: 'string' },
+        message: { type: 'string' },
+        min: {
+          type: 'string',
+          description: 'YYYY-MM-DD, HH:MM or YYYY-MM-DDTHH:MM matching the field type, or "today"/"now"'
+        },
+        max: {
+          type: 'string',
+          description: 'YYYY-MM-DD, HH:MM or YYYY-MM-DDTHH:MM matching the field type, or "today"/"now"'
+        },
+        minSelected: { type: 'integer' },
+        maxSelected: { type: 'integer' },
+        accept: {
+          type: 'array',
+          items: { type: 'string' }
+        },
+        maxFileSizeMb: { type: 'number' },
+        maxFiles: { type: 'integer' },
+        minItems: { type: 'integer' },
+        maxItems: { type: 'integer' }
+      }
+    },
+    options: {
+      type: 'array',
+      items: { type: 'string' }
+    },
+    range: {
+      type: 'object',
+      properties: {
+        min: { type: 'number' },
+        max: { type: 'number' },
+        step: { type: 'number' },
+        minLabel: { type: 'string' },
+        maxLabel: { type: 'string' }
+      }
+    },
+    visibleIf: {
+      type: 'object',
+      description: 'Show the field only when this rule holds: a comparison, or {all: [...]} / {any: [...]} of comparisons',
+      properties: {
+        field: { type: 'string' },
+        op: { type: 'string', enum: [...COMPARISON_OPERATORS] },
+        value: {},
+        all: { type: 'array', items: { type: 'object' } },
+        any: { type: 'array', items: { type: 'object' } }
+      }
+    },
+    branches: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          when: { type: 'object' },
+          goTo: { type: 'string' }
+        },
+        required: ['when', 'goTo']
+      }
+    },
+    fields: {
+      type: 'array',
+      description: 'Sub-fields repeated for every entry of a group, with the same properties as a field',
+      items: { type: 'object' }
+    },
+    expression: {
+      type: 'string',
+      description: 'Formula of a calculated field over earlier field ids'
+    },
+    param: { type: 'string' },
+    defaultValue: { type: 'string' }
+  },
+  required: ['id', 'label', 'type', 'required']
 };
 
+// What the model is asked to do with a single field, by action
+const FIELD_ACTION_TASKS: Record<FieldAction, (id: string) => string> = {
+  regenerate: id => `Write a better version of the field with id "${id}" that fits the rest of the form. Its type, label and settings may all change.`,
+  label: id => `Rewrite the label of the field with id "${id}" so respondents understand it at a glance: short, specific and in plain language. Adjust its description and placeholder to match, or leave them out when the label says it all.`,
+  validation: id => `Suggest validation for the field with id "${id}" that fits what it asks for, such as a pattern with a helpful message, date limits, or how many options or files may be chosen. Leave out rules that would reject reasonable answers.`,
+  options: id => `Suggest a complete, sensibly ordered list of options for the field with id "${id}", keeping the existing options that still fit.`,
+};
+
+type GenerationOutcome =
+  | { ok: true; result: Record<string, unknown> }
+  | { ok: false; status: number; error: string; issues?: string[] };
+
+// Status and message to report for an error thrown while generating
+function describeError(error: unknown): { status: number; error: string } {
+  if (error instanceof AIProviderError && error.status === 429) {
+    return { status: 429, error: 'Rate limit exceeded. Please try again in a moment.' };
+  }
+  if (error instanceof AIProviderError && error.status === 402) {
+    return { status: 402, error: 'AI service requires additional credits. Please contact support.' };
+  }
+  console.error('Error in generate-form function:', error);
+  return { status: 500, error: error instanceof Error ? error.message : 'Unknown error occurred' };
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { description } = await req.json();
-    console.log('Generating form from description:', description);
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // The gateway accepts the anon key as well, so check for a signed-in user
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+    const { data: { user } } = token ? await admin.auth.getUser(token) : { data: { user: null } };
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Sign in to generate forms' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // GET reports the remaining quota without generating anything
+    if (req.method === 'GET') {
+      return new Response(
+        JSON.stringify(await getQuota(admin, user.id)),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { description, document, schema, instruction, field, action, clarifications, generateAnyway, stream } = await req.json();
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
+    // With a schema and an instruction, the current form is refined instead
+    // of generating a new one from the description
+    const current = schema === undefined ? undefined : safeParseFormSchema(schema);
+    if (current && !current.success) {
+      return new Response(
+        JSON.stringify({ error: 'The form to refine is invalid', issues: current.error.issues }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
+    // With a field id and an action instead of an instruction, only that
+    // field of the current form is changed
+    const target = current && field !== undefined
+      ? current.data.fields.find(candidate => candidate.id === field)
+      : undefined;
+    if (current && field !== undefined && !target) {
+      return new Response(
+        JSON.stringify({ error: `The form has no field "${field}"` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const fieldEdit = current && target ? { form: current.data, field: target, action: action as FieldAction } : undefined;
+    if (fieldEdit && !(FIELD_ACTIONS.includes(action) && fieldActionsFor(fieldEdit.field).includes(action))) {
+      return new Response(
+        JSON.stringify({ error: `action must be one of ${fieldActionsFor(fieldEdit.field).join(', ')}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    // An uploaded document to derive the fields from, besides or instead of a description
+    const upload = current || document === undefined || document === null ? undefined : sourceDocumentSchema.safeParse(document);
+    if (upload && !upload.success) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid document', issues: upload.error.issues.map(issue => issue.message) }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const requested = current ? instruction : description;
+    const request = typeof requested === 'string' ? requested.trim() : '';
+    if (!request && !upload && !fieldEdit) {
+      return new Response(
+        JSON.stringify({ error: current ? 'instruction is required' : 'description or document is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let source: string | undefined;
+    if (upload) {
+      try {
+        const { kind, text } = await extractDocumentText(upload.data);
+        source = formatSourceDocument(upload.data.name, kind, text);
+      } catch (error) {
+        if (!(error instanceof DocumentError)) throw error;
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // Earlier rounds of clarification, replayed as the conversation so far
+    const history = clarificationHistorySchema.safeParse(clarifications ?? []);
+    if (!history.success) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid clarification history', issues: history.error.issues.map(issue => issue.message) }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const turns = current ? [] : history.data;
+    // Once the rounds are used up (or the user gives up on them) the model
+    // can only return a form
+    const mustGenerate = !current && (generateAnyway === true || turns.length >= MAX_CLARIFICATION_ROUNDS);
+
+    const conversation: ChatMessage[] = turns.flatMap((turn): ChatMessage[] => [
+      {
+        role: 'assistant',
+        content: JSON.stringify({ type: 'clarification', contradiction: turn.contradiction, questions: turn.questions })
       },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a form generation AI. Your task is to analyze natural language descriptions of forms and generate structured form schemas.
+      {
+        role: 'user',
+        content: `Answers:\n\n${formatClarificationAnswers(turn)}`
+      }
+    ]);
+    if (mustGenerate) {
+      conversation.push({
+        role: 'user',
+        content: 'Do not ask any more questions. Generate the form now, making reasonable assumptions about anything still unclear.'
+      });
+    }
+
+    const userMessage = fieldEdit
+      ? `Here is the current form:\n${JSON.stringify(fieldEdit.form)}\n\n${FIELD_ACTION_TASKS[fieldEdit.action](fieldEdit.field.id)}\n\nChange nothing else and return only that field, keeping its id.`
+      : current
+        ? `Here is the current form:\n${JSON.stringify(current.data)}\n\nApply the following change and return the complete updated form. Keep the ids, labels and settings of everything the change doesn't touch.\n\nChange: ${request}`
+        : source
+          ? `Create a form from the following document.${request ? `\n\nInstructions: ${request}` : ''}\n\n${source}`
+          : request;
+    if (fieldEdit) {
+      console.log(`Changing field "${fieldEdit.field.id}" with action:`, fieldEdit.action);
+    } else {
+      console.log(current ? 'Refining form with instruction:' : 'Generating form from description:', request);
+    }
+    if (upload) {
+      console.log('Generating form from document:', upload.data.name);
+    }
+
+    const provider = getAIProvider();
+    console.log('Using AI provider:', provider.name);
+
+    const reservation = await reserveGeneration(admin, user.id, {
+      mode: fieldEdit ? 'field' : current ? 'refine' : 'generate',
+      provider: provider.name,
+    });
+    if (!reservation.ok) {
+      return new Response(
+        JSON.stringify({ error: 'You have used all of your AI generations for today.', quota: reservation.quota }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You are a form generation AI. Your task is to analyze natural language descriptions of forms and generate structured form schemas.
 
 CRITICAL RULES:
 1. Detect contradictions (e.g., "anonymous form with phone number")
-2. If contradictions exist, return a clarification request
-3. Generate appropriate field types: text, email, tel, number, select, textarea
+2. If contradictions exist, return a clarification request with at most 3 questions. When a question has a few likely answers, list them as choices. If you already asked questions, use the answers and only ask again about what is still contradictory
+3. Generate appropriate field types: text, email, tel, number, select, textarea, date, time, datetime, radio, checkbox, multiselect, file, rating, scale, slider, plus the layout elements section and page_break
 4. Include validation rules for each field
-5. Return ONLY valid JSON, no markdown, no explanation
+5. Use date for calendar days (e.g. date of birth), time for a time of day, and datetime for appointments
+6. For date/time/datetime fields, set validation.min/validation.max when the description implies limits (e.g. a date of birth has max "today", an appointment has min "now")
+7. Use radio for a single choice among a few options, select for a single choice among many, multiselect when several options may be picked ("choose all that apply"), and checkbox for a single yes/no or consent statement (the label is the statement)
+8. For multiselect fields, set validation.minSelected/validation.maxSelected when the description limits how many may be picked
+9. Use file for attachments (résumés, photos, documents); set validation.accept to MIME types (e.g. ["application/pdf"], ["image/*"]) and validation.maxFileSizeMb/validation.maxFiles when implied (size is capped at 10 MB)
+10. Use rating for star ratings (range.max = number of stars, default 5), scale for Likert (1-5) or NPS (0-10) questions, and slider for picking a number in a continuous range; set range.min/range.max/range.step and range.minLabel/range.maxLabel (e.g. "Strongly disagree"/"Strongly agree", "Not at all likely"/"Extremely likely") as appropriate
+11. When a field should only be asked depending on an earlier answer ("only ask X if Y"), set visibleIf on it. A rule is either a comparison {"field": "<earlier field id>", "op": "equals|not_equals|in|not_in|contains|gt|gte|lt|lte|filled|empty", "value": ...} or a combination {"all": [rules]} / {"any": [rules]}. Rules may only refer to fields listed before the field
+12. For long forms, group related fields under a section (a heading with an optional description, never required) and split the form into pages with page_break elements. A page_break's label and description title the page it starts. To skip pages depending on answers, give the page_break branches: [{"when": <rule>, "goTo": "<id of a later page_break>" or "submit"}], checked when leaving the page before it; rules may only refer to earlier fields
+13. Use description on any field for short help text shown under its label
+14. When the respondent may give a variable number of the same set of answers (e.g. work experience, dependants, line items), use a group field with the repeated sub-fields in fields. Use validation.minItems/maxItems to bound the number of entries. Sub-fields can't be groups, sections or page breaks; their ids only need to be unique within the group and their visibleIf may only refer to earlier sub-fields of the same group
+15. For values derived from other answers (totals, BMI, age from date of birth) use a calculated field with an expression over earlier field ids: numbers, + - * / % ^, parentheses and round(x, digits), floor, ceil, abs, sqrt, min, max, count(field), age(date_field). For values the respondent never sees, such as attribution, use a hidden field with param (the URL query parameter to read, e.g. "source") and/or defaultValue (a constant). Calculated and hidden fields are never required
+16. When given a document, derive the fields from it and keep its wording for labels. In a spreadsheet every column header becomes a field, typed from its name and sample values. In an existing form, every blank (____), box or labelled gap becomes a field of the matching type, lists of checkboxes (☐, [ ]) become radio, multiselect or checkbox fields, and headings become sections. Leave out office-use-only parts and signature lines. Anything else the user asks for applies on top of the document
+17. Return ONLY valid JSON, no markdown, no explanation
 
 Response format for valid forms:
 {
@@ -46,16 +340,33 @@ Response format for valid forms:
   "description": "Brief description",
   "fields": [
     {
-      "id": "unique_id",
+      "id": "unique_snake_case_id",
       "label": "Field Label",
-      "type": "text|email|tel|number|select|textarea",
+      "type": "text|email|tel|number|select|textarea|date|time|datetime|radio|checkbox|multiselect|file|rating|scale|slider|section|page_break|group|calculated|hidden",
+      "description": "Help text (optional)",
       "placeholder": "Placeholder text",
       "required": true|false,
       "validation": {
-        "pattern": "regex pattern (optional)",
-        "message": "validation error message"
+        "pattern": "JavaScript regex source without slashes or flags; no backreferences or nested quantifiers such as (a+)+ (optional)",
+        "message": "validation error message",
+        "min": "earliest value, only for date/time/datetime (optional)",
+        "max": "latest value, only for date/time/datetime (optional)",
+        "minSelected": 1, // only for multiselect (optional)
+        "maxSelected": 3, // only for multiselect (optional)
+        "accept": ["application/pdf"], // only for file (optional)
+        "maxFileSizeMb": 5, // only for file (optional)
+        "maxFiles": 1, // only for file (optional)
+        "minItems": 1, // only for group (optional)
+        "maxItems": 5 // only for group (optional)
       },
-      "options": ["option1", "option2"] // only for select type
+      "options": ["option1", "option2"], // only for select, radio and multiselect types
+      "range": { "min": 0, "max": 10, "step": 1, "minLabel": "Low label", "maxLabel": "High label" }, // only for rating, scale and slider types
+      "visibleIf": { "field": "earlier_field_id", "op": "equals", "value": "Yes" }, // optional
+      "branches": [{ "when": { "field": "earlier_field_id", "op": "equals", "value": "No" }, "goTo": "later_page_break_id" }], // only for page_break (optional)
+      "fields": [{ "id": "sub_field_id", "label": "Sub-field Label", "type": "text", "required": true }], // only for group
+      "expression": "round(weight / (height / 100) ^ 2, 1)", // only for calculated
+      "param": "source", // only for hidden (optional)
+      "defaultValue": "direct" // only for hidden (optional)
     }
   ]
 }
@@ -65,118 +376,221 @@ Response format for contradictions:
   "type": "clarification",
   "contradiction": "Description of the contradiction",
   "questions": [
-    "Question 1?",
-    "Question 2?"
+    { "question": "Question 1?", "choices": ["Suggested answer", "Another suggested answer"] },
+    { "question": "Question 2?" }
   ]
 }`
+      },
+      {
+        role: 'user',
+        content: userMessage
+      },
+      ...conversation
+    ];
+
+    const tool: ToolDefinition = fieldEdit ? {
+      name: 'update_form_field',
+      description: 'Return the changed field',
+      parameters: FIELD_PARAMETERS,
+    } : {
+      name: 'generate_form_schema',
+      description: 'Generate a structured form schema or request clarification for contradictions',
+      parameters: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            enum: mustGenerate ? ['form'] : ['form', 'clarification']
+          },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          fields: {
+            type: 'array',
+            items: FIELD_PARAMETERS
           },
+          contradiction: { type: 'string' },
+          questions: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                question: { type: 'string' },
+                choices: {
+                  type: 'array',
+                  description: 'Suggested answers the user can pick from',
+                  items: { type: 'string' }
+                }
+              },
+              required: ['question']
+            }
+          }
+        },
+        required: ['type']
+      }
+    };
+
+    // Ids the refined form already uses stay as they are
+    const existingIds = current
+      ? current.data.fields.flatMap(field => [field.id, ...(field.fields ?? []).map(subField => subField.id)])
+      : [];
+
+    // Tokens of every attempt, when the provider reports them
+    let spent: TokenUsage | undefined;
+    const addUsage = (usage: TokenUsage | undefined) => {
+      if (!usage) return;
+      spent = {
+        promptTokens: (spent?.promptTokens ?? 0) + usage.promptTokens,
+        completionTokens: (spent?.completionTokens ?? 0) + usage.completionTokens,
+      };
+    };
+
+    // Output that can't be repaired is sent back to the model with the
+    // problems found, for it to correct. With `send`, the model's output is
+    // streamed and previews of the form are sent as it arrives.
+    const generate = async (signal: AbortSignal, send?: (event: GenerationStreamEvent) => void): Promise<GenerationOutcome> => {
+      let problems: string[] = [];
+      // Sends a rejected reply back to the model with what was wrong with it
+      const reject = (attempt: number, reply: string) => {
+        console.error(`Invalid AI output (attempt ${attempt} of ${MAX_GENERATION_ATTEMPTS}):`, problems);
+        if (attempt < MAX_GENERATION_ATTEMPTS) {
+          send?.({ type: 'retry', attempt, problems });
+        }
+        messages.push(
+          { role: 'assistant', content: reply },
           {
             role: 'user',
-            content: description
+            content: `That response was rejected:\n- ${problems.join('\n- ')}\n\nFix these problems and call the tool again with the complete corrected response.`
           }
-        ],
-        tools: [
-          {
-            type: 'function',
-            function: {
-              name: 'generate_form_schema',
-              description: 'Generate a structured form schema or request clarification for contradictions',
-              parameters: {
-                type: 'object',
-                properties: {
-                  type: {
-                    type: 'string',
-                    enum: ['form', 'clarification']
-                  },
-                  title: { type: 'string' },
-                  description: { type: 'string' },
-                  fields: {
-                    type: 'array',
-                    items: {
-                      type: 'object',
-                      properties: {
-                        id: { type: 'string' },
-                        label: { type: 'string' },
-                        type: { 
-                          type: 'string',
-                          enum: ['text', 'email', 'tel', 'number', 'select', 'textarea']
-                        },
-                        placeholder: { type: 'string' },
-                        required: { type: 'boolean' },
-                        validation: {
-                          type: 'object',
-                          properties: {
-                            pattern: { type: 'string' },
-                            message: { type: 'string' }
-                          }
-                        },
-                        options: {
-                          type: 'array',
-                          items: { type: 'string' }
-                        }
-                      },
-                      required: ['id', 'label', 'type', 'required']
-                    }
-                  },
-                  contradiction: { type: 'string' },
-                  questions: {
-                    type: 'array',
-                    items: { type: 'string' }
-                  }
-                },
-                required: ['type']
-              }
+        );
+      };
+
+      for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+        let previewed = '';
+        let call: ToolCallResult;
+        try {
+          call = send
+            ? await provider.streamTool({ messages, tool, signal }, text => {
+              const partial = readPartialForm(text);
+              const key = JSON.stringify(partial);
+              // Only re-parse when another field (or the title) has been finished
+              if (!partial || key === previewed) return;
+              previewed = key;
+              const preview = previewPartialForm(partial, { existingIds });
+              if (preview) send({ type: 'progress', schema: preview });
+            })
+            : await provider.callTool({ messages, tool, signal });
+        } catch (error) {
+          // Malformed or cut-off output is retried like invalid output
+          if (!(error instanceof AIOutputError)) throw error;
+          addUsage(error.usage);
+          problems = [error.message];
+          reject(attempt, error.output);
+          continue;
+        }
+        const toolOutput = call.arguments;
+        addUsage(call.usage);
+        // A changed field is checked as part of the whole form
+        const parsed = safeParseAIOutput(
+          fieldEdit
+            ? {
+              ...fieldEdit.form,
+              fields: replaceField(fieldEdit.form.fields, fieldEdit.field.id, applyFieldPatch(fieldEdit.field, toolOutput, fieldEdit.action)),
             }
+            : { ...toolOutput, schemaVersion: CURRENT_SCHEMA_VERSION },
+          { existingIds }
+        );
+
+        if (parsed.success && !(mustGenerate && parsed.data.type === 'clarification')) {
+          if (parsed.repairs.length > 0) {
+            console.log('Repaired form schema:', parsed.repairs);
           }
-        ],
-        tool_choice: { type: 'function', function: { name: 'generate_form_schema' } }
-      }),
-    });
+          // Timed once here rather than on every parse, see dropSlowPatterns
+          const vetted = parsed.data.type === 'form'
+            ? dropSlowPatterns(parsed.data)
+            : { schema: parsed.data, warnings: [] };
+          const data = vetted.schema;
+          const warnings = [...parsed.warnings, ...vetted.warnings];
+          console.log('Generated form schema:', JSON.stringify(data));
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI API error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again in a moment.' }), 
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI service requires additional credits. Please contact support.' }), 
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
+          // The client patches a changed field into its copy of the form
+          if (fieldEdit && data.type === 'form') {
+            const changed = data.fields.find(candidate => candidate.id === fieldEdit.field.id);
+            return { ok: true, result: { type: 'field', field: changed, warnings } };
+          }
+          // Warnings ride along next to the schema; parsing on the client ignores them
+          return { ok: true, result: { ...data, warnings } };
+        }
+
+        problems = parsed.success
+          ? ['No more questions can be asked; a form is required']
+          : [parsed.error.message, ...parsed.error.issues];
+        reject(attempt, JSON.stringify(toolOutput));
       }
-      
-      throw new Error(`AI API returned ${response.status}: ${errorText}`);
-    }
 
-    const data = await response.json();
-    console.log('AI response:', JSON.stringify(data));
+      return { ok: false, status: 502, error: 'The AI returned an invalid form. Please try again.', issues: problems };
+    };
 
-    const toolCall = data.choices[0]?.message?.tool_calls?.[0];
-    if (!toolCall) {
-      throw new Error('No tool call in AI response');
-    }
+    // Completes the usage row however the generation ends
+    const generateAndRecord = async (signal: AbortSignal, send?: (event: GenerationStreamEvent) => void): Promise<GenerationOutcome> => {
+      try {
+        const outcome = await generate(signal, send);
+        await reservation.usage.finish(outcome.ok ? 'success' : 'invalid', spent, outcome.ok ? undefined : outcome.error);
+        return outcome;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await reservation.usage.finish(signal.aborted ? 'cancelled' : 'error', spent, message);
+        throw error;
+      }
+    };
 
-    const formSchema = JSON.parse(toolCall.function.arguments);
-    console.log('Generated form schema:', JSON.stringify(formSchema));
+    if (stream !== true) {
+      const outcome = await generateAndRecord(req.signal);
+      return outcome.ok
+        ? new Response(JSON.stringify(outcome.result), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+        : new Response(
+          JSON.stringify({ error: outcome.error, issues: outcome.issues }),
+          { status: outcome.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
 
-    return new Response(
-      JSON.stringify(formSchema),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    // One JSON event per line. The model call is aborted when the client
+    // goes away, e.g. because the user cancelled.
+    const abort = new AbortController();
+    req.signal.addEventListener('abort', () => abort.abort());
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: GenerationStreamEvent) => {
+          if (!abort.signal.aborted) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        };
+        try {
+          const outcome = await generateAndRecord(abort.signal, send);
+          send(outcome.ok
+            ? { type: 'result', result: outcome.result }
+            : { type: 'error', status: outcome.status, error: outcome.error, issues: outcome.issues });
+        } catch (error) {
+          if (abort.signal.aborted) {
+            console.log('Generation cancelled');
+          } else {
+            const failure = describeError(error);
+            send({ type: 'error', status: failure.status, error: failure.error });
+          }
+        }
+        if (!abort.signal.aborted) controller.close();
+      },
+      cancel() {
+        abort.abort();
+      },
+    });
+    return new Response(body, {
+      headers: { ...corsHeaders, 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' },
+    });
 
   } catch (error) {
-    console.error('Error in generate-form function:', error);
+    const failure = describeError(error);
     return new Response(
-      JSON.stringify({ 
-        error: error instanceof Error ? error.message : 'Unknown error occurred' 
-      }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      JSON.stringify({ error: failure.error }),
+      { status: failure.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
-});
\ No newline at end of file
+});
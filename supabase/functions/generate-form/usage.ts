@@ -0,0 +1,106 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { TokenUsage } from "../_shared/ai/index.ts";
+
+// Generations per user per UTC day, unless AI_DAILY_LIMIT or a row in
+// ai_quota_overrides says otherwise
+export const DEFAULT_DAILY_LIMIT = 20;
+
+export interface Quota {
+  limit: number;
+  used: number;
+  remaining: number;
+  // When the count starts over (the next UTC midnight), as an ISO timestamp
+  resetsAt: string;
+}
+
+export type UsageOutcome = 'success' | 'invalid' | 'error' | 'cancelled';
+
+export interface UsageRecord {
+  // Completes the row started by reserveGeneration; never throws
+  finish(outcome: UsageOutcome, tokens?: TokenUsage, error?: string): Promise<void>;
+}
+
+export type Reservation =
+  | { ok: true; quota: Quota; usage: UsageRecord }
+  | { ok: false; quota: Quota };
+
+const defaultDailyLimit = (): number => {
+  const configured = Deno.env.get('AI_DAILY_LIMIT');
+  const limit = Number(configured);
+  return configured && Number.isInteger(limit) && limit >= 0 ? limit : DEFAULT_DAILY_LIMIT;
+};
+
+/**
+ * The user's allowance for today. Every generation counts, failed and
+ * cancelled ones included, since the model calls were paid for either way.
+ */
+export async function getQuota(admin: SupabaseClient, userId: string): Promise<Quota> {
+  const now = new Date();
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const resetsAt = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+  const [usage, override] = await Promise.all([
+    admin
+      .from('ai_usage')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gte('created_at', dayStart.toISOString()),
+    admin
+      .from('ai_quota_overrides')
+      .select('daily_limit')
+      .eq('user_id', userId)
+      .maybeSingle(),
+  ]);
+  if (usage.error) throw usage.error;
+  if (override.error) throw override.error;
+
+  const limit: number = override.data?.daily_limit ?? defaultDailyLimit();
+  const used = usage.count ?? 0;
+  return { limit, used, remaining: Math.max(0, limit - used), resetsAt: resetsAt.toISOString() };
+}
+
+/**
+ * Records a generation before the model is called, so requests made at
+ * the same time all see each other in the count. When that takes the user
+ * over their limit the row is removed again and the request refused.
+ */
+export async function reserveGeneration(
+  admin: SupabaseClient,
+  userId: string,
+  { mode, provider }: { mode: 'generate' | 'refine' | 'field'; provider: string }
+): Promise<Reservation> {
+  const { data: row, error } = await admin
+    .from('ai_usage')
+    .insert({ user_id: userId, mode, provider })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const quota = await getQuota(admin, userId);
+  if (quota.used > quota.limit) {
+    const { error: deleteError } = await admin.from('ai_usage').delete().eq('id', row.id);
+    if (deleteError) throw deleteError;
+    return { ok: false, quota: { ...quota, used: quota.used - 1 } };
+  }
+
+  const startedAt = Date.now();
+  return {
+    ok: true,
+    quota,
+    usage: {
+      async finish(outcome, tokens, message) {
+        const { error: updateError } = await admin
+          .from('ai_usage')
+          .update({
+            outcome,
+            prompt_tokens: tokens?.promptTokens ?? null,
+            completion_tokens: tokens?.completionTokens ?? null,
+            latency_ms: Date.now() - startedAt,
+            error: message ?? null,
+          })
+          .eq('id', row.id);
+        if (updateError) console.error('Failed to record AI usage:', updateError);
+      },
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import {
+  FORM_UPLOADS_BUCKET,
+  collectFileRefs,
+  computeAnswers,
+  dropMalformedAnswers,
+  getActiveFields,
+  pruneHiddenAnswers,
+  respondentClock,
+  safeParseFormSchema,
+  validateAnswers,
+  type FileRef,
+  type StoredFile,
+} from "../_shared/form-schema/index.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Query parameters as sent by the browser; only strings are kept
+const toParams = (value: unknown): Record<string, string> =>
+  isRecord(value)
+    ? Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+    : {};
+
+/**
+ * What storage recorded for each attachment in this form's upload folder,
+ * by path. The size and type in a FileRef are whatever the browser sent, and
+ * its path may never have been uploaded, so only these are trusted.
+ */
+async function readUploads(supabase: SupabaseClient, formId: string, files: FileRef[]): Promise<Map<string, StoredFile>> {
+  const uploads = new Map<string, StoredFile>();
+  const paths = new Set(files.map(file => file.path).filter(path => path.startsWith(`${formId}/`)));
+  await Promise.all([...paths].map(async path => {
+    const slash = path.lastIndexOf('/');
+    const name = path.slice(slash + 1);
+    const { data, error } = await supabase.storage
+      .from(FORM_UPLOADS_BUCKET)
+      .list(path.slice(0, slash), { search: name });
+    if (error) throw error;
+
+    // Folders are listed too, without metadata
+    const object = data.find(item => item.name === name && item.metadata);
+    if (object) {
+      uploads.set(path, {
+        size: Number(object.metadata.size),
+        type: String(object.metadata.mimetype ?? '').split(';')[0].trim(),
+      });
+    }
+  }));
+  return uploads;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // A missing or malformed body is the client's mistake, not a server error
+    const body: unknown = await req.json().catch(() => null);
+    const { formId, formData, params, utcOffset } = isRecord(body) ? body : {};
+    if (typeof formId !== 'string' || !isRecord(formData)) {
+      return jsonResponse({ error: 'formId and formData are required' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: form, error: formError } = await supabase
+      .from('forms')
+      .select('id, title, status, published_schema, published_version_id')
+      .eq('id', formId)
+      .maybeSingle();
+
+    if (formError) throw formError;
+    if (!form || !form.published_schema || (form.status !== 'published' && form.status !== 'closed')) {
+      return jsonResponse({ error: 'Form not found' }, 404);
+    }
+    if (form.status !== 'published') {
+      return jsonResponse({ error: 'This form is no longer accepting responses' }, 403);
+    }
+
+    // Answers are checked against, and pinned to, the published version (not
+    // the draft being edited) so they can be read against the same questions
+    // after the form changes
+    const parsed = safeParseFormSchema(form.published_schema);
+    if (!parsed.success) {
+      console.error(`Invalid schema for form ${formId}:`, parsed.error.message, parsed.error.issues);
+      return jsonResponse({ error: "This form is damaged and can't accept responses" }, 500);
+    }
+    const schema = parsed.data;
+
+    // "now" and "today" mean the respondent's, as answers are their local
+    // wall-clock times. Without their UTC offset, relative date bounds are
+    // left to the browser rather than checked against UTC
+    const now = respondentClock(utcOffset);
+
+    // Hidden and calculated answers are never taken from the browser as-is,
+    // and answers of the wrong shape or to hidden, skipped or unknown fields
+    // are dropped
+    const answers = pruneHiddenAnswers(
+      schema.fields,
+      computeAnswers(schema.fields, dropMalformedAnswers(schema.fields, formData), toParams(params), now ?? undefined)
+    );
+
+    const uploads = await readUploads(supabase, form.id, collectFileRefs(answers));
+    const errors = validateAnswers(getActiveFields(schema.fields, answers), answers, { formId: form.id, now, uploads });
+    if (Object.keys(errors).length > 0) {
+      console.log(`Rejected submission to form ${formId}:`, errors);
+      return jsonResponse({ error: 'Please fix the errors in the form', errors }, 422);
+    }
+
+    const { error: insertError } = await supabase
+      .from('form_submissions')
+      .insert({
+        form_id: form.id,
+        form_title: schema.title || form.title || 'Untitled Form',
+        form_data: answers,
+        version_id: form.published_version_id,
+      });
+
+    if (insertError) throw insertError;
+
+    return jsonResponse({ success: true });
+
+  } catch (error) {
+    console.error('Error in submit-form function:', error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      500
+    );
+  }
+});
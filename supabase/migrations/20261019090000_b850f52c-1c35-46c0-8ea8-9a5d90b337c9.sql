@@ -0,0 +1,8 @@
+-- Reject rows whose schema isn't shaped like a form. The app validates the
+-- full field model with the shared form-schema module; this only guards
+-- against writes that bypass it. Existing rows are left unchecked.
+ALTER TABLE public.forms
+ADD CONSTRAINT forms_schema_is_form CHECK (
+  jsonb_typeof(schema) = 'object'
+  AND jsonb_typeof(schema->'fields') = 'array'
+) NOT VALID;
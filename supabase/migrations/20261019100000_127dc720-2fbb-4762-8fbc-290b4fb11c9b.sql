@@ -0,0 +1,41 @@
+-- Private bucket for attachments uploaded through file fields.
+-- Objects are stored as <form_id>/<random>/<file name>.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('form-uploads', 'form-uploads', false, 10485760)
+ON CONFLICT (id) DO NOTHING;
+
+-- Anyone can upload into the folder of a form that is accepting responses
+CREATE POLICY "Anyone can upload to active forms" ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'form-uploads'
+  AND EXISTS (
+    SELECT 1 FROM public.forms
+    WHERE forms.id::text = (storage.foldername(objects.name))[1]
+    AND forms.accepting_responses = true
+  )
+);
+
+-- Allow form owners to download attachments of their forms
+CREATE POLICY "Form owners can read uploads" ON storage.objects
+FOR SELECT TO authenticated
+USING (
+  bucket_id = 'form-uploads'
+  AND EXISTS (
+    SELECT 1 FROM public.forms
+    WHERE forms.id::text = (storage.foldername(objects.name))[1]
+    AND forms.user_id = auth.uid()
+  )
+);
+
+-- Allow form owners to delete attachments of their forms
+CREATE POLICY "Form owners can delete uploads" ON storage.objects
+FOR DELETE TO authenticated
+USING (
+  bucket_id = 'form-uploads'
+  AND EXISTS (
+    SELECT 1 FROM public.forms
+    WHERE forms.id::text = (storage.foldername(objects.name))[1]
+    AND forms.user_id = auth.uid()
+  )
+);
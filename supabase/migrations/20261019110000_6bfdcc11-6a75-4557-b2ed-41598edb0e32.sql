@@ -0,0 +1,4 @@
+-- Submissions are only written by the submit-form edge function, which
+-- re-validates the answers against the stored schema and inserts with the
+-- service role (bypassing RLS). Direct inserts with the anon key are refused.
+DROP POLICY IF EXISTS "Anyone can submit to active forms" ON public.form_submissions;
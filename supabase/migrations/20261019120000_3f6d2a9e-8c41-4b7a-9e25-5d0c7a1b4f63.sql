@@ -0,0 +1,40 @@
+-- One row per request to generate-form, written by the function with the
+-- service role. Every row counts against its user's daily quota, failed
+-- ones included since they used AI credits too. Rows start out 'pending'
+-- so concurrent requests are counted before the model answers.
+CREATE TABLE public.ai_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  mode TEXT NOT NULL CHECK (mode IN ('generate', 'refine')),
+  provider TEXT NOT NULL,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  latency_ms INTEGER,
+  outcome TEXT NOT NULL DEFAULT 'pending'
+    CHECK (outcome IN ('pending', 'success', 'invalid', 'error', 'cancelled')),
+  error TEXT
+);
+
+CREATE INDEX idx_ai_usage_user_created_at ON public.ai_usage(user_id, created_at DESC);
+
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to see their own usage
+CREATE POLICY "Users can view their own AI usage" ON public.ai_usage
+FOR SELECT TO authenticated
+USING (auth.uid() = user_id);
+
+-- Per-user exceptions to the AI_DAILY_LIMIT default, set by an admin
+CREATE TABLE public.ai_quota_overrides (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  daily_limit INTEGER NOT NULL CHECK (daily_limit >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ai_quota_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to see their own limit
+CREATE POLICY "Users can view their own AI quota" ON public.ai_quota_overrides
+FOR SELECT TO authenticated
+USING (auth.uid() = user_id);
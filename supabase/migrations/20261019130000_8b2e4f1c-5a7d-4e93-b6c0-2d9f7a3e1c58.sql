@@ -0,0 +1,6 @@
+-- Single-field AI actions (regenerate, rewrite label, suggest validation or
+-- options) are recorded and counted like any other generation
+ALTER TABLE public.ai_usage DROP CONSTRAINT ai_usage_mode_check;
+
+ALTER TABLE public.ai_usage ADD CONSTRAINT ai_usage_mode_check
+  CHECK (mode IN ('generate', 'refine', 'field'));
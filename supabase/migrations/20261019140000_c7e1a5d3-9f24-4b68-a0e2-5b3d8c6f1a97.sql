@@ -0,0 +1,65 @@
+-- Every schema a form has had, so a submission can be read against the
+-- questions it actually answered. Rows are written by the trigger below
+-- whenever a form is created or its schema changes, and are never updated
+-- or deleted by clients; restoring an old version saves it as a new one.
+CREATE TABLE public.form_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  form_id UUID NOT NULL REFERENCES public.forms(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  schema JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  UNIQUE (form_id, version)
+);
+
+ALTER TABLE public.form_versions ENABLE ROW LEVEL SECURITY;
+
+-- Allow form owners to view the history of their forms
+CREATE POLICY "Form owners can view versions" ON public.form_versions
+FOR SELECT TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.forms
+    WHERE forms.id = form_versions.form_id
+    AND forms.user_id = auth.uid()
+  )
+);
+
+-- Runs as the table owner, as clients can't insert versions themselves.
+-- Updates to the same form hold its row lock, so version numbers can't race.
+CREATE OR REPLACE FUNCTION public.record_form_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.form_versions (form_id, version, schema, created_by)
+  SELECT NEW.id, COALESCE(MAX(version), 0) + 1, NEW.schema, auth.uid()
+  FROM public.form_versions
+  WHERE form_id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER forms_record_version_on_insert
+AFTER INSERT ON public.forms
+FOR EACH ROW EXECUTE FUNCTION public.record_form_version();
+
+CREATE TRIGGER forms_record_version_on_update
+AFTER UPDATE OF schema ON public.forms
+FOR EACH ROW
+WHEN (OLD.schema IS DISTINCT FROM NEW.schema)
+EXECUTE FUNCTION public.record_form_version();
+
+-- Existing forms start their history with the schema they have now
+INSERT INTO public.form_versions (form_id, version, schema, created_by, created_at)
+SELECT id, 1, schema, user_id, created_at
+FROM public.forms;
+
+-- The version a submission was validated against. Older submissions were
+-- made before versions were kept and stay unpinned.
+ALTER TABLE public.form_submissions
+ADD COLUMN version_id UUID REFERENCES public.form_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_form_versions_form_id ON public.form_versions(form_id, version DESC);
@@ -0,0 +1,80 @@
+-- Forms move through draft -> published -> closed, and can be archived.
+-- `schema` is the draft being edited; respondents only ever see
+-- `published_schema`, copied from the draft by publish_form(). Replaces
+-- accepting_responses: a form accepts responses while it is published.
+ALTER TABLE public.forms
+ADD COLUMN status TEXT NOT NULL DEFAULT 'draft'
+  CHECK (status IN ('draft', 'published', 'closed', 'archived')),
+ADD COLUMN published_schema JSONB,
+ADD COLUMN published_version_id UUID REFERENCES public.form_versions(id) ON DELETE SET NULL,
+ADD COLUMN published_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing forms were live as soon as they were created
+UPDATE public.forms
+SET status = CASE WHEN accepting_responses THEN 'published' ELSE 'closed' END,
+    published_schema = schema,
+    published_version_id = (
+      SELECT form_versions.id FROM public.form_versions
+      WHERE form_versions.form_id = forms.id
+      ORDER BY form_versions.version DESC
+      LIMIT 1
+    ),
+    published_at = created_at;
+
+-- A form can only be live (or closed) with a published schema to show
+ALTER TABLE public.forms
+ADD CONSTRAINT forms_published_has_schema CHECK (
+  status NOT IN ('published', 'closed') OR published_schema IS NOT NULL
+);
+
+DROP POLICY IF EXISTS "Anyone can upload to active forms" ON storage.objects;
+
+ALTER TABLE public.forms DROP COLUMN accepting_responses;
+
+-- Anyone can upload into the folder of a published form
+CREATE POLICY "Anyone can upload to published forms" ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'form-uploads'
+  AND EXISTS (
+    SELECT 1 FROM public.forms
+    WHERE forms.id::text = (storage.foldername(objects.name))[1]
+    AND forms.status = 'published'
+  )
+);
+
+-- Drafts and archived forms are only visible to their owner
+DROP POLICY IF EXISTS "Anyone can view forms" ON public.forms;
+
+CREATE POLICY "Anyone can view published forms" ON public.forms
+FOR SELECT USING (
+  status IN ('published', 'closed')
+  OR auth.uid() = user_id
+);
+
+-- Makes the current draft live, pinning new submissions to its version.
+-- Runs as the caller, so RLS limits it to the form's owner.
+CREATE OR REPLACE FUNCTION public.publish_form(target_form_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.forms
+  SET status = 'published',
+      published_schema = forms.schema,
+      published_version_id = (
+        SELECT form_versions.id FROM public.form_versions
+        WHERE form_versions.form_id = forms.id
+        ORDER BY form_versions.version DESC
+        LIMIT 1
+      ),
+      published_at = now()
+  WHERE forms.id = target_form_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Form not found';
+  END IF;
+END;
+$$;
@@ -0,0 +1,48 @@
+-- Respondents could read whole forms rows, including the draft `schema` the
+-- owner is still editing. Only owners read the table now; respondents load
+-- the published version through get_published_form().
+DROP POLICY IF EXISTS "Anyone can view published forms" ON public.forms;
+
+CREATE POLICY "Users can view their own forms" ON public.forms
+FOR SELECT USING (auth.uid() = user_id);
+
+-- The published (or closed) form behind a share link, without its draft.
+-- Runs as the table owner, since respondents can't read forms themselves.
+CREATE OR REPLACE FUNCTION public.get_published_form(target_form_id UUID)
+RETURNS TABLE (status TEXT, published_schema JSONB)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT forms.status, forms.published_schema
+  FROM public.forms
+  WHERE forms.id = target_form_id
+  AND forms.status IN ('published', 'closed');
+$$;
+
+-- Whether a form accepts responses, for the upload policy below; also runs
+-- as the table owner. Takes the folder name, which needn't be a valid uuid.
+CREATE OR REPLACE FUNCTION public.form_accepts_responses(target_form_id TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.forms
+    WHERE forms.id::text = target_form_id
+    AND forms.status = 'published'
+  );
+$$;
+
+DROP POLICY IF EXISTS "Anyone can upload to published forms" ON storage.objects;
+
+-- Anyone can upload into the folder of a published form
+CREATE POLICY "Anyone can upload to published forms" ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'form-uploads'
+  AND public.form_accepts_responses((storage.foldername(objects.name))[1])
+);